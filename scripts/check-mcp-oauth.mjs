@@ -0,0 +1,267 @@
+/**
+ * MCP OAuth 流程检查脚本
+ *
+ * 在本机启动一个模拟的 MCP 服务器兼授权服务器，对 src/lib/mcp/oauth.ts 依次检查：
+ * 元数据发现、动态客户端注册、PKCE 授权码流程、令牌刷新与刷新失败后的清理
+ *
+ * 用法：npm run check:oauth
+ * 令牌写入临时目录，不会影响项目的 .data/
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const SOURCES = ['oauth.ts', 'storage.ts', 'types.ts'];
+const REDIRECT_URI = 'http://localhost:3000/api/mcp/oauth/callback';
+
+/**
+ * 将 oauth.ts 及其依赖转译为 CommonJS，写入临时目录
+ */
+function buildOAuthModule(outDir) {
+  for (const file of SOURCES) {
+    const source = fs.readFileSync(path.join(ROOT_DIR, 'src/lib/mcp', file), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+      },
+    });
+    fs.writeFileSync(path.join(outDir, file.replace(/\.ts$/, '.js')), outputText);
+  }
+  return createRequire(path.join(outDir, 'index.js'))('./oauth.js');
+}
+
+function base64url(buffer) {
+  return buffer.toString('base64url');
+}
+
+async function readBody(req) {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body;
+}
+
+/**
+ * 模拟服务器：/mcp 为受保护资源，其余为授权服务器端点
+ */
+function createMockServer() {
+  const state = {
+    origin: '',
+    registrations: 0,
+    clients: new Map(),
+    codes: new Map(),
+    refreshTokens: new Map(),
+    issued: 0,
+    // 下一次发放令牌的有效期（秒）
+    expiresIn: 3600,
+    // 是否在刷新时轮换刷新令牌
+    rotateRefreshToken: true,
+  };
+
+  const issueToken = (clientId, resource, rotate) => {
+    state.issued += 1;
+    const token = {
+      access_token: `access-${state.issued}`,
+      token_type: 'Bearer',
+      expires_in: state.expiresIn,
+    };
+    if (rotate) {
+      token.refresh_token = `refresh-${state.issued}`;
+      state.refreshTokens.set(token.refresh_token, { clientId, resource });
+    }
+    return token;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, state.origin);
+    const json = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    // 受保护资源元数据放在非默认地址，只能通过 WWW-Authenticate 发现
+    if (req.method === 'GET' && url.pathname === '/metadata/mcp-resource') {
+      return json(200, {
+        resource: `${state.origin}/mcp`,
+        authorization_servers: [`${state.origin}/auth`],
+        scopes_supported: ['mcp:tools'],
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/oauth-authorization-server/auth') {
+      return json(200, {
+        issuer: `${state.origin}/auth`,
+        authorization_endpoint: `${state.origin}/auth/authorize`,
+        token_endpoint: `${state.origin}/auth/token`,
+        registration_endpoint: `${state.origin}/auth/register`,
+        code_challenge_methods_supported: ['S256'],
+      });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/auth/register') {
+      const body = JSON.parse(await readBody(req));
+      if (!Array.isArray(body.redirect_uris) || body.token_endpoint_auth_method !== 'none') {
+        return json(400, { error: 'invalid_client_metadata' });
+      }
+      state.registrations += 1;
+      const clientId = `client-${state.registrations}`;
+      state.clients.set(clientId, body.redirect_uris);
+      return json(201, { client_id: clientId });
+    }
+
+    // 模拟用户同意授权：直接带授权码重定向回调地址
+    if (req.method === 'GET' && url.pathname === '/auth/authorize') {
+      const params = url.searchParams;
+      const redirectUri = params.get('redirect_uri');
+      if (!state.clients.get(params.get('client_id'))?.includes(redirectUri)
+        || params.get('code_challenge_method') !== 'S256'
+        || !params.get('code_challenge')) {
+        return json(400, { error: 'invalid_request' });
+      }
+      const code = base64url(crypto.randomBytes(16));
+      state.codes.set(code, {
+        clientId: params.get('client_id'),
+        redirectUri,
+        codeChallenge: params.get('code_challenge'),
+        resource: params.get('resource'),
+      });
+      const location = new URL(redirectUri);
+      location.searchParams.set('code', code);
+      location.searchParams.set('state', params.get('state'));
+      res.writeHead(302, { Location: location.toString() });
+      return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/auth/token') {
+      const params = new URLSearchParams(await readBody(req));
+
+      if (params.get('grant_type') === 'authorization_code') {
+        const grant = state.codes.get(params.get('code'));
+        state.codes.delete(params.get('code'));
+        const challenge = base64url(crypto.createHash('sha256').update(params.get('code_verifier') ?? '').digest());
+        if (!grant
+          || grant.clientId !== params.get('client_id')
+          || grant.redirectUri !== params.get('redirect_uri')
+          || grant.resource !== params.get('resource')
+          || grant.codeChallenge !== challenge) {
+          return json(400, { error: 'invalid_grant' });
+        }
+        return json(200, issueToken(grant.clientId, grant.resource, true));
+      }
+
+      if (params.get('grant_type') === 'refresh_token') {
+        const grant = state.refreshTokens.get(params.get('refresh_token'));
+        if (!grant || grant.clientId !== params.get('client_id') || grant.resource !== params.get('resource')) {
+          return json(400, { error: 'invalid_grant' });
+        }
+        if (state.rotateRefreshToken) {
+          state.refreshTokens.delete(params.get('refresh_token'));
+        }
+        return json(200, issueToken(grant.clientId, grant.resource, state.rotateRefreshToken));
+      }
+
+      return json(400, { error: 'unsupported_grant_type' });
+    }
+
+    json(404, { error: 'not_found' });
+  });
+
+  return { server, state };
+}
+
+/**
+ * 按授权地址模拟浏览器访问，返回回调中的 code 与 state
+ */
+async function authorize(authorizationUrl) {
+  const response = await fetch(authorizationUrl, { redirect: 'manual' });
+  assert.equal(response.status, 302, `authorize endpoint rejected the request: ${await response.text()}`);
+  const callback = new URL(response.headers.get('location'));
+  return { code: callback.searchParams.get('code'), state: callback.searchParams.get('state') };
+}
+
+async function main() {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-oauth-check-'));
+  const { server, state } = createMockServer();
+
+  try {
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    state.origin = `http://127.0.0.1:${server.address().port}`;
+
+    // storage.ts 在加载时确定数据目录，需先切换到临时目录
+    process.chdir(workDir);
+    const oauth = buildOAuthModule(workDir);
+
+    const config = { id: 'mock', name: 'Mock', endpoint: `${state.origin}/mcp` };
+    const check = (label) => console.log(`✓ ${label}`);
+
+    // 发现与注册
+    oauth.recordAuthChallenge(config.id, `Bearer resource_metadata="${state.origin}/metadata/mcp-resource", scope="mcp:tools"`);
+    const authorizationUrl = new URL(await oauth.startAuthorization(config, REDIRECT_URI));
+    assert.equal(authorizationUrl.origin + authorizationUrl.pathname, `${state.origin}/auth/authorize`);
+    assert.equal(authorizationUrl.searchParams.get('client_id'), 'client-1');
+    assert.equal(authorizationUrl.searchParams.get('resource'), `${state.origin}/mcp`);
+    assert.equal(authorizationUrl.searchParams.get('scope'), 'mcp:tools');
+    assert.equal(state.registrations, 1);
+    check('discovery via WWW-Authenticate and dynamic client registration');
+
+    await oauth.startAuthorization(config, REDIRECT_URI);
+    assert.equal(state.registrations, 1);
+    check('registered client is reused');
+
+    // PKCE 授权码流程
+    const callback = await authorize(authorizationUrl);
+    assert.equal(await oauth.completeAuthorization(callback.state, callback.code), config.id);
+    assert.equal(await oauth.getOAuthAccessToken(config.id), 'access-1');
+    check('authorization code exchanged with PKCE verifier');
+
+    await assert.rejects(oauth.completeAuthorization(callback.state, callback.code), /invalid or has expired/);
+    check('authorization state cannot be reused');
+
+    const stored = JSON.parse(fs.readFileSync(path.join(workDir, '.data/mcp-oauth.json'), 'utf8'));
+    assert.equal(stored.tokens[config.id].refreshToken, 'refresh-1');
+    check('tokens persisted to the data directory');
+
+    // 刷新：服务器拒绝令牌时强制刷新；不轮换刷新令牌时保留原刷新令牌
+    state.expiresIn = 30;
+    state.rotateRefreshToken = false;
+    assert.equal(await oauth.refreshOAuthAccessToken(config.id), true);
+    check('forced refresh after the server rejects the token');
+
+    // 新令牌在提前刷新的时间余量内，获取时会再次刷新
+    const [first, second] = await Promise.all([
+      oauth.getOAuthAccessToken(config.id),
+      oauth.getOAuthAccessToken(config.id),
+    ]);
+    assert.equal(first, 'access-3');
+    assert.equal(second, 'access-3');
+    check('expiring token refreshed once for concurrent callers, refresh token kept');
+
+    // 刷新令牌失效后清除令牌，需要重新授权
+    state.refreshTokens.clear();
+    assert.equal(await oauth.refreshOAuthAccessToken(config.id), false);
+    assert.equal(await oauth.getOAuthAccessToken(config.id), undefined);
+    check('failed refresh clears tokens');
+
+    console.log('MCP OAuth checks passed');
+  } finally {
+    server.close();
+    process.chdir(ROOT_DIR);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
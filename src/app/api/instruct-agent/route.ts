@@ -2,35 +2,54 @@ import { NextRequest } from 'next/server';
 import { createChatClient } from '@/lib/instruct-agent/azure-client';
 import { ChatMessage } from '@/lib/types';
 import { getToolById } from '@/lib/instruct-agent/tools-service';
-import { getMCPServerById } from '@/lib/mcp/servers';
-import { MCPClient, mcpToolToOpenAIFunction, parseOpenAIFunctionName, mcpResultToText } from '@/lib/mcp/client';
-import { MCPTool, MCPToolCallResult } from '@/lib/mcp/types';
+import {
+  MCPClient,
+  MCPRequestError,
+  MCPRequestHandler,
+  mcpToolToOpenAIFunction,
+  parseOpenAIFunctionName,
+  mcpResultMedia,
+  mcpResultToText,
+} from '@/lib/mcp/client';
+import { mcpPool } from '@/lib/mcp/pool';
+import { resolveMCPServer } from '@/lib/mcp/registry';
+import {
+  getExposedMCPTools,
+  getMCPToolApprovalPolicy,
+  isMCPToolIdempotent,
+  isMCPToolReadOnly,
+  resolveMCPToolName,
+} from '@/lib/mcp/tool-settings';
+import { createInteractionId, waitForInteraction } from '@/lib/mcp/interactions';
+import { getMCPConversation, isValidConversationId } from '@/lib/mcp/conversations';
+import { validateJSONSchema } from '@/lib/mcp/schema';
+import { getMCPRoots } from '@/lib/mcp/roots';
+import { createSamplingMessage, parseSamplingRequest, selectSamplingModel } from '@/lib/mcp/sampling';
+import { parseElicitationRequest, validateElicitationContent } from '@/lib/mcp/elicitation';
+import {
+  MCPContent,
+  MCPElicitRequestParams,
+  MCPElicitResult,
+  MCPJSONSchema,
+  MCPSamplingDecision,
+  MCPServerConfig,
+  MCPTool,
+  MCPToolApprovalDecision,
+  MCPToolCallResult,
+} from '@/lib/mcp/types';
 import { ARXIV_TOOLS, callArxivTool } from '@/lib/mcp/arxiv-client';
+import { models } from '@/lib/instruct-agent/models';
 
-// Using Edge runtime for improved performance with streaming responses
-export const runtime = 'edge';
+// stdio MCP 服务器需要启动子进程，必须使用 Node.js runtime
+export const runtime = 'nodejs';
 
-// MCP 客户端缓存 (Edge runtime 中的内存缓存)
-const mcpClientCache = new Map<string, MCPClient>();
+// 模型接受的图片格式，其他格式的工具图片不转发
+const SUPPORTED_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
 
-async function getOrCreateMCPClient(serverId: string): Promise<MCPClient | null> {
-  let client = mcpClientCache.get(serverId);
-  
-  if (client && client.isInitialized()) {
-    return client;
-  }
-  
-  const serverConfig = getMCPServerById(serverId);
-  if (!serverConfig) {
-    console.error(`MCP Server not found: ${serverId}`);
-    return null;
-  }
-  
+// 从共享连接池获取 MCP 客户端，连接失败时跳过该服务器
+async function acquireMCPClient(serverId: string): Promise<MCPClient | null> {
   try {
-    client = new MCPClient(serverConfig);
-    await client.initialize();
-    mcpClientCache.set(serverId, client);
-    return client;
+    return await mcpPool.acquire(serverId);
   } catch (error) {
     console.error(`Failed to initialize MCP client for ${serverId}:`, error);
     return null;
@@ -38,13 +57,29 @@ async function getOrCreateMCPClient(serverId: string): Promise<MCPClient | null>
 }
 
 export async function POST(req: NextRequest) {
+  // 本次请求占用的连接，响应结束后归还连接池
+  const leasedServerIds: string[] = [];
+  const releaseLeases = () => {
+    leasedServerIds.splice(0).forEach(serverId => mcpPool.release(serverId));
+  };
+
   try {
-    const { messages, systemPrompt, prompt, tool, model, imageAttachments = [], enabledMCPServers = [] } = await req.json();
+    const {
+      messages,
+      systemPrompt,
+      prompt,
+      tool,
+      model,
+      imageAttachments = [],
+      enabledMCPServers = [],
+      conversationId,
+    } = await req.json();
 
     const hasPrompt = typeof prompt === 'string' && prompt.trim().length > 0;
     const hasImageAttachments = Array.isArray(imageAttachments) && imageAttachments.length > 0;
+    const supportsVision = models.find(m => m.id === model)?.supportsVision ?? false;
 
-    if (!messages || (!hasPrompt && !hasImageAttachments) || !tool || !model) {
+    if (!messages || (!hasPrompt && !hasImageAttachments) || !tool || !model || !isValidConversationId(conversationId)) {
       return new Response(
         JSON.stringify({ error: 'Missing required parameters' }),
         { 
@@ -68,36 +103,50 @@ export async function POST(req: NextRequest) {
 
     // 准备 MCP 工具
     const mcpTools: { type: 'function'; function: { name: string; description?: string; parameters: Record<string, unknown> } }[] = [];
-    const mcpServerMap = new Map<string, { client: MCPClient | null; tools: MCPTool[]; isLocal: boolean }>();
+    const mcpServerMap = new Map<string, {
+      client: MCPClient | null;
+      config: MCPServerConfig;
+      tools: MCPTool[];
+      isLocal: boolean;
+    }>();
     
     // 连接启用的 MCP 服务器并获取工具
     const enabledServerIds: string[] = Array.isArray(enabledMCPServers) ? enabledMCPServers : [];
     for (const serverId of enabledServerIds) {
+      const config = await resolveMCPServer(serverId);
+      if (!config) {
+        console.warn(`[MCP] Unknown server: ${serverId}`);
+        continue;
+      }
+
       // 处理本地 arXiv 工具
       if (serverId === 'arxiv') {
-        mcpServerMap.set(serverId, { client: null, tools: ARXIV_TOOLS, isLocal: true });
+        mcpServerMap.set(serverId, { client: null, config, tools: ARXIV_TOOLS, isLocal: true });
         
-        // 将 arXiv 工具转换为 OpenAI 函数格式
-        for (const mcpTool of ARXIV_TOOLS) {
+        // 将 arXiv 工具转换为 OpenAI 函数格式（按工具设置过滤并应用别名）
+        const exposedTools = getExposedMCPTools(config, ARXIV_TOOLS);
+        for (const mcpTool of exposedTools) {
           mcpTools.push(mcpToolToOpenAIFunction(serverId, mcpTool));
         }
         
-        console.log(`[MCP] Local server ${serverId}: ${ARXIV_TOOLS.length} tools loaded`);
+        console.log(`[MCP] Local server ${serverId}: ${exposedTools.length}/${ARXIV_TOOLS.length} tools loaded`);
         continue;
       }
       
       // 处理远程 MCP 服务器
-      const client = await getOrCreateMCPClient(serverId);
+      const client = await acquireMCPClient(serverId);
       if (client) {
+        leasedServerIds.push(serverId);
         const tools = client.getTools();
-        mcpServerMap.set(serverId, { client, tools, isLocal: false });
+        mcpServerMap.set(serverId, { client, config, tools, isLocal: false });
         
-        // 将 MCP 工具转换为 OpenAI 函数格式
-        for (const mcpTool of tools) {
+        // 将 MCP 工具转换为 OpenAI 函数格式（按工具设置过滤并应用别名）
+        const exposedTools = getExposedMCPTools(config, tools);
+        for (const mcpTool of exposedTools) {
           mcpTools.push(mcpToolToOpenAIFunction(serverId, mcpTool));
         }
         
-        console.log(`[MCP] Server ${serverId}: ${tools.length} tools loaded`);
+        console.log(`[MCP] Server ${serverId}: ${exposedTools.length}/${tools.length} tools loaded`);
       }
     }
 
@@ -130,10 +179,28 @@ export async function POST(req: NextRequest) {
     }
 
     // Create a ReadableStream for SSE output
+    // 用户停止生成或断开连接时，中止模型请求和进行中的 MCP 工具调用
+    const abortController = new AbortController();
+    req.signal.addEventListener('abort', () => abortController.abort());
+
     const stream = new ReadableStream({
+      cancel() {
+        abortController.abort();
+      },
       async start(controller) {
         const encoder = new TextEncoder();
-        
+
+        // 转发 MCP 连接状态变化（会话失效重连等），供侧边栏同步状态
+        const stateUnsubscribers = [...mcpServerMap.entries()]
+          .filter(([, info]) => info.client)
+          .map(([serverId, info]) => info.client!.onStateChange(state => {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'mcp_connection',
+              serverId,
+              state,
+            })}\n\n`));
+          }));
+
         try {
           // Initialize clients
           const endpoint = process.env.GITHUB_MODEL_ENDPOINT ?? 'https://models.github.ai/inference';
@@ -145,6 +212,83 @@ export async function POST(req: NextRequest) {
 
           const client = createChatClient(endpoint, token);
 
+          /**
+           * 工具调用期间服务器发起的请求的处理器，只接收由本次对话的该调用引发的请求
+           */
+          const createRequestHandlers = (serverId: string): Record<string, MCPRequestHandler> => ({
+            // 本对话设置的工作区目录
+            'roots/list': async () => ({ roots: getMCPRoots(conversationId) }),
+
+            // 请求模型生成：预览经用户批准后才调用模型
+            'sampling/createMessage': async params => {
+              const samplingRequest = parseSamplingRequest(params);
+              const samplingModel = selectSamplingModel(samplingRequest.modelPreferences, model);
+
+              const approvalId = createInteractionId();
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                type: 'sampling_request',
+                approvalId,
+                serverId,
+                model: samplingModel,
+                systemPrompt: samplingRequest.systemPrompt,
+                messages: samplingRequest.messages,
+                maxTokens: samplingRequest.maxTokens,
+              })}\n\n`));
+
+              const decision = await waitForInteraction<MCPSamplingDecision>(approvalId, {
+                signal: abortController.signal,
+              });
+              if (decision.action !== 'approve') {
+                console.log(`[MCP] Sampling request from ${serverId} denied by user`);
+                throw new MCPRequestError(-1, 'User rejected sampling request');
+              }
+
+              console.log(`[MCP] Sampling request from ${serverId} approved, using ${samplingModel}`);
+              return createSamplingMessage(client, samplingModel, samplingRequest, abortController.signal);
+            },
+
+            // 服务器在工具调用中途请求用户补充信息：在对话中显示表单
+            'elicitation/create': async params => {
+              let elicitation: MCPElicitRequestParams;
+              try {
+                elicitation = parseElicitationRequest(params);
+              } catch (error) {
+                throw new MCPRequestError(-32602, error instanceof Error ? error.message : String(error));
+              }
+
+              const elicitationId = createInteractionId();
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                type: 'elicitation',
+                elicitationId,
+                serverId,
+                message: elicitation.message,
+                requestedSchema: elicitation.requestedSchema,
+              })}\n\n`));
+
+              let result: MCPElicitResult;
+              try {
+                result = await waitForInteraction<MCPElicitResult>(elicitationId, {
+                  signal: abortController.signal,
+                });
+              } catch (error) {
+                // 用户长时间未填写视为取消；对话已停止时不再回复
+                if (abortController.signal.aborted) throw error;
+                return { action: 'cancel' } satisfies MCPElicitResult;
+              }
+
+              if (result.action !== 'accept') {
+                console.log(`[MCP] Elicitation from ${serverId}: ${result.action}`);
+                return { action: result.action } satisfies MCPElicitResult;
+              }
+              const errors = validateElicitationContent(elicitation.requestedSchema, result.content ?? {});
+              if (errors.length > 0) {
+                throw new MCPRequestError(-32602, `Invalid elicitation response: ${errors.join('; ')}`);
+              }
+              console.log(`[MCP] Elicitation from ${serverId} accepted`);
+              return { action: 'accept', content: result.content ?? {} } satisfies MCPElicitResult;
+            },
+          });
+
           const normalizedPrompt = typeof prompt === 'string' ? prompt : '';
           const finalUserPrompt = normalizedPrompt;
 
@@ -265,6 +409,186 @@ export async function POST(req: NextRequest) {
           // 最大工具调用轮次，防止无限循环
           const MAX_TOOL_ITERATIONS = 10;
           let toolIterations = 0;
+
+          // 本对话中已确认过的工具，保存在服务器端，用于"每个会话确认一次"策略
+          const sessionApprovals = getMCPConversation(conversationId).approvedTools;
+
+          /**
+           * 解析模型调用的函数名：还原别名，并查找服务器上的工具定义
+           */
+          const resolveToolCall = (functionName: string) => {
+            const parsed = parseOpenAIFunctionName(functionName);
+            if (!parsed) return undefined;
+
+            const serverInfo = mcpServerMap.get(parsed.serverId);
+            // 别名还原为服务器上的工具名；已禁用的工具拒绝调用
+            const toolName = serverInfo && resolveMCPToolName(serverInfo.config, serverInfo.tools, parsed.toolName);
+            const tool = toolName ? serverInfo?.tools.find(t => t.name === toolName) : undefined;
+            return { serverId: parsed.serverId, exposedName: parsed.toolName, serverInfo, toolName, tool };
+          };
+
+          /**
+           * 执行单个工具调用（包括确认和进度转发），返回发送给模型的工具结果及其中的图片、音频
+           */
+          const executeToolCall = async (toolCall: {
+            id: string;
+            function: { name: string; arguments: string };
+          }): Promise<{ content: string; media?: MCPContent[] }> => {
+            const functionName = toolCall.function.name;
+            const parsed = resolveToolCall(functionName);
+            
+            if (!parsed) {
+              console.error(`[MCP] Invalid function name format: ${functionName}`);
+              return { content: `Error: Invalid function name format: ${functionName}` };
+            }
+            
+            const { serverId, serverInfo, toolName, tool } = parsed;
+            
+            if (!serverInfo || !toolName) {
+              const reason = serverInfo
+                ? `Tool is not available: ${serverId}/${parsed.exposedName}`
+                : `MCP server not found: ${serverId}`;
+              console.error(`[MCP] ${reason}`);
+              return { content: `Error: ${reason}` };
+            }
+            
+            try {
+              // 解析工具参数
+              let args: Record<string, unknown> = {};
+              if (toolCall.function.arguments) {
+                try {
+                  args = JSON.parse(toolCall.function.arguments);
+                } catch (parseError) {
+                  console.error(`[MCP] Failed to parse tool arguments:`, parseError);
+                }
+              }
+              
+              // 按确认策略等待用户批准、修改参数或拒绝
+              const approvalPolicy = getMCPToolApprovalPolicy(serverInfo.config, toolName, tool);
+              const approvalKey = `${serverId}/${toolName}`;
+              let denied = false;
+              if (approvalPolicy === 'always' || (approvalPolicy === 'once' && !sessionApprovals.has(approvalKey))) {
+                const approvalId = createInteractionId();
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                  type: 'tool_approval_required',
+                  callId: toolCall.id,
+                  approvalId,
+                  serverId,
+                  toolName,
+                  arguments: args,
+                  policy: approvalPolicy,
+                })}\n\n`));
+
+                const decision = await waitForInteraction<MCPToolApprovalDecision>(approvalId, {
+                  signal: abortController.signal,
+                });
+                denied = decision.action !== 'approve';
+                if (!denied) {
+                  // 用户修改的参数来自浏览器，必须是对象并符合工具的 inputSchema
+                  if (decision.arguments !== undefined) {
+                    const edited: unknown = decision.arguments;
+                    if (!edited || typeof edited !== 'object' || Array.isArray(edited)) {
+                      throw new Error('Edited tool arguments must be a JSON object');
+                    }
+                    const errors = tool ? validateJSONSchema(edited, tool.inputSchema as MCPJSONSchema) : [];
+                    if (errors.length > 0) {
+                      throw new Error(`Edited tool arguments do not match the input schema: ${errors.join('; ')}`);
+                    }
+                    args = edited as Record<string, unknown>;
+                  }
+                  if (approvalPolicy === 'once') {
+                    sessionApprovals.add(approvalKey);
+                  }
+                }
+                console.log(`[MCP] Tool call ${approvalKey} ${denied ? 'denied' : 'approved'} by user`);
+              }
+              
+              if (!denied) {
+                console.log(`[MCP] Calling tool: ${serverId}/${toolName}`, args);
+
+                // 发送工具调用状态到客户端
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                  type: 'tool_call',
+                  callId: toolCall.id,
+                  serverId,
+                  toolName,
+                  status: 'running',
+                })}\n\n`));
+              }
+              
+              // 执行工具调用
+              let result: MCPToolCallResult;
+              
+              if (denied) {
+                result = {
+                  content: [{ type: 'text', text: 'The user denied this tool call.' }],
+                  isError: true,
+                };
+              } else if (serverInfo.isLocal && serverId === 'arxiv') {
+                // 本地 arXiv 工具调用
+                result = await callArxivTool(toolName, args);
+              } else if (serverInfo.client) {
+                // 远程 MCP 服务器调用，转发服务器推送的进度
+                result = await mcpPool.callTool(serverId, toolName, args, {
+                  signal: abortController.signal,
+                  idempotent: isMCPToolIdempotent(tool),
+                  requestHandlers: createRequestHandlers(serverId),
+                  onProgress: ({ progress, total, message }) => {
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                      type: 'tool_progress',
+                      callId: toolCall.id,
+                      serverId,
+                      toolName,
+                      progress,
+                      total,
+                      message,
+                    })}\n\n`));
+                  },
+                });
+              } else {
+                throw new Error(`No client available for server: ${serverId}`);
+              }
+              
+              const resultText = mcpResultToText(result);
+              const media = mcpResultMedia(result);
+              console.log(`[MCP] Tool result (${serverId}/${toolName}):`, resultText.substring(0, 200));
+              
+              // 发送工具调用完成状态
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                type: 'tool_call',
+                callId: toolCall.id,
+                serverId,
+                toolName,
+                status: denied ? 'denied' : 'completed',
+                preview: resultText.substring(0, 100),
+                structuredContent: result.structuredContent,
+                media: media.length > 0 ? media : undefined,
+              })}\n\n`));
+              
+              return { content: resultText || 'Tool executed successfully with no output.', media };
+            } catch (toolError) {
+              // 响应已被停止，不再继续对话
+              if (abortController.signal.aborted) {
+                throw toolError;
+              }
+
+              console.error(`[MCP] Tool call error (${serverId}/${toolName}):`, toolError);
+              
+              const errorMsg = toolError instanceof Error ? toolError.message : 'Unknown error';
+              
+              // 发送工具调用错误状态
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                type: 'tool_call',
+                callId: toolCall.id,
+                serverId,
+                toolName,
+                status: 'error',
+                error: errorMsg,
+              })}\n\n`));
+              
+              return { content: `Error calling tool: ${errorMsg}` };
+            }
+          };
           
           // 执行工具调用循环
           while (toolIterations < MAX_TOOL_ITERATIONS) {
@@ -283,7 +607,9 @@ export async function POST(req: NextRequest) {
               ? { ...baseOptions, tools: mcpTools, tool_choice: 'auto' as const }
               : baseOptions;
             
-            const openAIStream = await client.chat.completions.create(requestOptions as any) as unknown as AsyncIterable<any>;
+            const openAIStream = await client.chat.completions.create(requestOptions as any, {
+              signal: abortController.signal,
+            }) as unknown as AsyncIterable<any>;
 
             // 处理返回的流
             let assistantContent = '';
@@ -363,110 +689,52 @@ export async function POST(req: NextRequest) {
               tool_calls: toolCalls,
             } as any);
             
-            // 执行每个工具调用
+            const toolImages: MCPContent[] = [];
+
+            // 执行工具调用：连续的只读调用并行执行，其余按顺序执行；结果按调用顺序加入对话历史
+            const batches: { readOnly: boolean; calls: typeof toolCalls }[] = [];
             for (const toolCall of toolCalls) {
-              const functionName = toolCall.function.name;
-              const parsed = parseOpenAIFunctionName(functionName);
-              
-              if (!parsed) {
-                console.error(`[MCP] Invalid function name format: ${functionName}`);
-                conversationMessages.push({
-                  role: 'tool',
-                  tool_call_id: toolCall.id,
-                  content: `Error: Invalid function name format: ${functionName}`,
-                } as any);
-                continue;
+              const readOnly = isMCPToolReadOnly(resolveToolCall(toolCall.function.name)?.tool);
+              const lastBatch = batches[batches.length - 1];
+              if (readOnly && lastBatch?.readOnly) {
+                lastBatch.calls.push(toolCall);
+              } else {
+                batches.push({ readOnly, calls: [toolCall] });
               }
-              
-              const { serverId, toolName } = parsed;
-              const serverInfo = mcpServerMap.get(serverId);
-              
-              if (!serverInfo) {
-                console.error(`[MCP] Server not found: ${serverId}`);
-                conversationMessages.push({
-                  role: 'tool',
-                  tool_call_id: toolCall.id,
-                  content: `Error: MCP server not found: ${serverId}`,
-                } as any);
-                continue;
+            }
+
+            for (const batch of batches) {
+              if (batch.calls.length > 1) {
+                console.log(`[MCP] Running ${batch.calls.length} read-only tool calls in parallel`);
               }
-              
-              try {
-                // 解析工具参数
-                let args: Record<string, unknown> = {};
-                if (toolCall.function.arguments) {
-                  try {
-                    args = JSON.parse(toolCall.function.arguments);
-                  } catch (parseError) {
-                    console.error(`[MCP] Failed to parse tool arguments:`, parseError);
-                  }
-                }
-                
-                console.log(`[MCP] Calling tool: ${serverId}/${toolName}`, args);
-                
-                // 发送工具调用状态到客户端
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                  type: 'tool_call',
-                  serverId,
-                  toolName,
-                  status: 'running',
-                })}\n\n`));
-                
-                // 执行工具调用
-                let result: MCPToolCallResult;
-                
-                if (serverInfo.isLocal && serverId === 'arxiv') {
-                  // 本地 arXiv 工具调用
-                  result = await callArxivTool(toolName, args);
-                } else if (serverInfo.client) {
-                  // 远程 MCP 服务器调用
-                  result = await serverInfo.client.callTool({
-                    name: toolName,
-                    arguments: args,
-                  });
-                } else {
-                  throw new Error(`No client available for server: ${serverId}`);
-                }
-                
-                const resultText = result.content?.map(c => c.text).filter(Boolean).join('\n\n') || mcpResultToText(result);
-                console.log(`[MCP] Tool result (${serverId}/${toolName}):`, resultText.substring(0, 200));
-                
-                // 发送工具调用完成状态
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                  type: 'tool_call',
-                  serverId,
-                  toolName,
-                  status: 'completed',
-                  preview: resultText.substring(0, 100),
-                })}\n\n`));
-                
-                // 将工具结果添加到对话历史
-                conversationMessages.push({
-                  role: 'tool',
-                  tool_call_id: toolCall.id,
-                  content: resultText || 'Tool executed successfully with no output.',
-                } as any);
-                
-              } catch (toolError) {
-                console.error(`[MCP] Tool call error (${serverId}/${toolName}):`, toolError);
-                
-                const errorMsg = toolError instanceof Error ? toolError.message : 'Unknown error';
-                
-                // 发送工具调用错误状态
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                  type: 'tool_call',
-                  serverId,
-                  toolName,
-                  status: 'error',
-                  error: errorMsg,
-                })}\n\n`));
-                
+              const results = await Promise.all(batch.calls.map(executeToolCall));
+              batch.calls.forEach((toolCall, index) => {
                 conversationMessages.push({
                   role: 'tool',
                   tool_call_id: toolCall.id,
-                  content: `Error calling tool: ${errorMsg}`,
+                  content: results[index].content,
                 } as any);
-              }
+                toolImages.push(...(results[index].media ?? []).filter(item => item.type === 'image'));
+              });
+            }
+
+            // tool 消息只能包含文本：工具返回的图片在所有工具结果之后以一条用户消息发送给支持图片输入的模型
+            const forwardedImages = toolImages.filter(image => SUPPORTED_IMAGE_TYPES.has(image.mimeType ?? ''));
+            if (forwardedImages.length > 0 && supportsVision) {
+              console.log(`[MCP] Forwarding ${forwardedImages.length} tool result image(s) to the model`);
+              conversationMessages.push({
+                role: 'user',
+                content: [
+                  { type: 'text' as const, text: 'Images returned by the tool calls above:' },
+                  ...forwardedImages.map(image => ({
+                    type: 'image_url' as const,
+                    image_url: { url: `data:${image.mimeType};base64,${image.data}`, detail: 'auto' as const },
+                  })),
+                ],
+              });
+            } else if (toolImages.length > 0) {
+              console.log(`[MCP] Skipping ${toolImages.length} tool result image(s): ` +
+                (supportsVision ? 'unsupported image type' : `model ${model} does not accept images`));
             }
           }
           
@@ -490,10 +758,18 @@ export async function POST(req: NextRequest) {
           // 完成后关闭流
           controller.close();
         } catch (error) {
+          // 客户端已停止接收，流已关闭
+          if (abortController.signal.aborted) {
+            console.log('[Instruct Agent] Response stopped by client');
+            return;
+          }
           console.error('Streaming error:', error);
           const errorMessage = error instanceof Error ? error.message : 'Unknown streaming error';
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: errorMessage })}\n\n`));
           controller.close();
+        } finally {
+          stateUnsubscribers.forEach(unsubscribe => unsubscribe());
+          releaseLeases();
         }
       }
     });
@@ -508,6 +784,7 @@ export async function POST(req: NextRequest) {
     });
 
   } catch (error) {
+    releaseLeases();
     console.error('Request handling error:', error);
     return new Response(
       JSON.stringify({ 
@@ -1,40 +1,25 @@
 /**
  * MCP 工具调用 API
- * 
- * 处理 MCP 工具的执行请求
+ *
+ * 处理 MCP 工具的执行请求；trace 为 true 时返回原始 JSON-RPC 请求与响应（调试台使用）
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getMCPServerById } from '@/lib/mcp/servers';
-import { MCPClient, mcpResultToText } from '@/lib/mcp/client';
+import { mcpResultToText } from '@/lib/mcp/client';
+import { mcpPool } from '@/lib/mcp/pool';
 import { callArxivTool } from '@/lib/mcp/arxiv-client';
-
-// 导入连接路由中的客户端缓存访问函数
-// 注意：由于 Next.js 的模块隔离，我们需要维护自己的缓存或重新连接
-const clientCache = new Map<string, MCPClient>();
-
-async function getOrCreateClient(serverId: string): Promise<MCPClient> {
-  let client = clientCache.get(serverId);
-  
-  if (client && client.isInitialized()) {
-    return client;
-  }
-  
-  const serverConfig = getMCPServerById(serverId);
-  if (!serverConfig) {
-    throw new Error(`Server not found: ${serverId}`);
-  }
-  
-  client = new MCPClient(serverConfig);
-  await client.initialize();
-  clientCache.set(serverId, client);
-  
-  return client;
-}
+import { MCPMessage } from '@/lib/mcp/types';
 
 export async function POST(req: NextRequest) {
+  const startedAt = Date.now();
+  // 本地 arXiv 工具不经过 JSON-RPC，没有报文
+  const messages: MCPMessage[] = [];
+  let trace = false;
+
   try {
-    const { serverId, toolName, arguments: args } = await req.json();
+    const body = await req.json();
+    const { serverId, toolName, arguments: args } = body;
+    trace = body.trace === true;
 
     if (!serverId || !toolName) {
       return NextResponse.json(
@@ -46,23 +31,21 @@ export async function POST(req: NextRequest) {
     // 处理本地 arXiv 工具调用
     if (serverId === 'arxiv') {
       const result = await callArxivTool(toolName, args || {});
-      
+
       return NextResponse.json({
         serverId,
         toolName,
         result,
-        text: result.content?.map(c => c.text).filter(Boolean).join('\n\n') || '',
+        text: mcpResultToText(result),
         isError: result.isError || false,
+        durationMs: Date.now() - startedAt,
+        ...(trace ? { messages } : {}),
       });
     }
 
-    // 获取或创建客户端
-    const client = await getOrCreateClient(serverId);
-
-    // 调用工具
-    const result = await client.callTool({
-      name: toolName,
-      arguments: args || {},
+    // 通过共享连接池调用工具
+    const result = await mcpPool.callTool(serverId, toolName, args || {}, {
+      onMessage: trace ? message => messages.push(message) : undefined,
     });
 
     // 返回结果
@@ -73,14 +56,18 @@ export async function POST(req: NextRequest) {
       // 同时返回文本格式的结果，方便直接使用
       text: mcpResultToText(result),
       isError: result.isError || false,
+      durationMs: Date.now() - startedAt,
+      ...(trace ? { messages } : {}),
     });
 
   } catch (error) {
     console.error('MCP tool call error:', error);
     return NextResponse.json(
-      { 
+      {
         error: error instanceof Error ? error.message : 'Unknown error',
         isError: true,
+        durationMs: Date.now() - startedAt,
+        ...(trace ? { messages } : {}),
       },
       { status: 500 }
     );
@@ -0,0 +1,56 @@
+/**
+ * MCP 参数补全 API
+ *
+ * 为提示词参数或资源模板变量请求服务器的补全候选值
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mcpPool } from '@/lib/mcp/pool';
+import { MCPCompleteParams } from '@/lib/mcp/types';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId, ref, argument, context } = await req.json() as Partial<MCPCompleteParams> & {
+      serverId?: string;
+    };
+
+    if (!serverId) {
+      return NextResponse.json(
+        { error: 'Missing serverId parameter' },
+        { status: 400 }
+      );
+    }
+
+    if (!ref || (ref.type !== 'ref/prompt' && ref.type !== 'ref/resource') || typeof argument?.name !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing ref or argument parameter' },
+        { status: 400 }
+      );
+    }
+
+    // 本地 arXiv 服务器不提供补全
+    if (serverId === 'arxiv') {
+      return NextResponse.json({ serverId, values: [] });
+    }
+
+    // 浏览器在输入变化时中止过期的请求
+    const completion = await mcpPool.withClient(serverId, client => client.complete({
+      ref,
+      argument: { name: argument.name, value: argument.value ?? '' },
+      ...(context?.arguments ? { context: { arguments: context.arguments } } : {}),
+    }, { signal: req.signal }));
+
+    return NextResponse.json({ serverId, ...completion });
+
+  } catch (error) {
+    // 浏览器已放弃该请求
+    if (req.signal.aborted) {
+      return NextResponse.json({ error: 'Request aborted' }, { status: 499 });
+    }
+    console.error('MCP completion error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,70 @@
 /**
  * MCP 服务器连接 API
  * 
- * 处理与 MCP 服务器的连接请求，获取工具列表
+ * 处理与 MCP 服务器的连接请求，获取工具列表；
+ * 传入 config 时只测试连接（用于添加或编辑服务器前的校验），不进入连接池
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getMCPServerById } from '@/lib/mcp/servers';
+import { MCPServerConfig } from '@/lib/mcp/types';
+import { resolveMCPServer, prepareUserMCPServer } from '@/lib/mcp/registry';
 import { MCPClient } from '@/lib/mcp/client';
+import { mcpPool } from '@/lib/mcp/pool';
+import { MCPUnauthorizedError } from '@/lib/mcp/transport';
 import { ARXIV_TOOLS } from '@/lib/mcp/arxiv-client';
 
-// 服务器端的 MCP 客户端缓存
-const clientCache = new Map<string, MCPClient>();
+/**
+ * 用未保存的配置建立临时连接，返回工具列表后立即断开
+ */
+async function testConnection(input: Partial<MCPServerConfig>): Promise<NextResponse> {
+  let config: MCPServerConfig;
+  try {
+    config = await prepareUserMCPServer(input);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid server config' },
+      { status: 400 }
+    );
+  }
+
+  const client = new MCPClient(config);
+  try {
+    await client.initialize();
+    return NextResponse.json({
+      serverName: config.name,
+      connected: true,
+      tools: client.getTools(),
+      session: client.getSession(),
+    });
+  } catch (error) {
+    console.error(`Test connection to ${config.endpoint} failed:`, error);
+
+    if (error instanceof MCPUnauthorizedError) {
+      // 需要 OAuth 授权的服务器可以先保存，再从侧边栏完成授权
+      return NextResponse.json(
+        { error: '需要授权才能连接此服务器', authorizationRequired: true },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to connect to MCP server' },
+      { status: 502 }
+    );
+  } finally {
+    client.disconnect();
+  }
+}
 
 export async function POST(req: NextRequest) {
   try {
-    const { serverId } = await req.json();
+    const { serverId, config } = await req.json() as {
+      serverId?: string;
+      config?: Partial<MCPServerConfig>;
+    };
+
+    if (config) {
+      return testConnection(config);
+    }
 
     if (!serverId) {
       return NextResponse.json(
@@ -24,7 +74,7 @@ export async function POST(req: NextRequest) {
     }
 
     // 获取服务器配置
-    const serverConfig = getMCPServerById(serverId);
+    const serverConfig = await resolveMCPServer(serverId);
     if (!serverConfig) {
       return NextResponse.json(
         { error: `Server not found: ${serverId}` },
@@ -42,32 +92,34 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // 检查缓存中是否有已连接的客户端
-    let client = clientCache.get(serverId);
-    
-    if (!client || !client.isInitialized()) {
-      // 创建新客户端并初始化
-      client = new MCPClient(serverConfig);
-      
-      try {
-        await client.initialize();
-        clientCache.set(serverId, client);
-      } catch (initError) {
-        console.error(`Failed to initialize MCP client for ${serverId}:`, initError);
-        
-        // 返回友好的错误信息
-        const errorMessage = initError instanceof Error 
-          ? initError.message 
-          : 'Failed to connect to MCP server';
-        
+    // 从共享连接池获取客户端（已连接时直接复用）
+    let client: MCPClient;
+    try {
+      client = await mcpPool.acquire(serverId);
+      mcpPool.release(serverId);
+    } catch (initError) {
+      console.error(`Failed to initialize MCP client for ${serverId}:`, initError);
+
+      // 服务器要求 OAuth 授权：由前端引导用户完成授权后重新连接
+      if (initError instanceof MCPUnauthorizedError) {
         return NextResponse.json(
-          { error: errorMessage },
-          { status: 502 }
+          { error: '需要授权才能连接此服务器', authorizationRequired: true },
+          { status: 401 }
         );
       }
+      
+      // 返回友好的错误信息
+      const errorMessage = initError instanceof Error 
+        ? initError.message 
+        : 'Failed to connect to MCP server';
+      
+      return NextResponse.json(
+        { error: errorMessage },
+        { status: 502 }
+      );
     }
 
-    // 返回工具列表
+    // 返回工具列表和握手信息
     const tools = client.getTools();
     
     return NextResponse.json({
@@ -75,6 +127,7 @@ export async function POST(req: NextRequest) {
       serverName: serverConfig.name,
       connected: true,
       tools,
+      session: client.getSession(),
     });
 
   } catch (error) {
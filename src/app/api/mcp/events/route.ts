@@ -0,0 +1,54 @@
+/**
+ * MCP 事件推送 API
+ * 
+ * 以 SSE 流推送共享连接池的事件（工具列表变化、连接状态变化），
+ * 侧边栏据此保持工具列表与连接状态最新
+ */
+
+import { NextRequest } from 'next/server';
+import { mcpPool } from '@/lib/mcp/pool';
+
+// 心跳间隔，防止代理因空闲断开连接
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export async function GET(req: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const unsubscribe = mcpPool.onEvent(event => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      });
+
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // 流已关闭
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * MCP 用户交互 API
+ * 
+ * 浏览器提交对话流中等待的用户决定（如工具调用确认）
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveInteraction } from '@/lib/mcp/interactions';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { id, response } = await req.json() as { id?: string; response?: unknown };
+
+    if (!id || response === undefined) {
+      return NextResponse.json(
+        { error: 'Missing id or response parameter' },
+        { status: 400 }
+      );
+    }
+
+    // 对话已结束或等待已超时
+    if (!resolveInteraction(id, response)) {
+      return NextResponse.json(
+        { error: `Interaction not found or expired: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id, resolved: true });
+
+  } catch (error) {
+    console.error('MCP interaction error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
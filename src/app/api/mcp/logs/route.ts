@@ -0,0 +1,70 @@
+/**
+ * MCP 服务器日志 API
+ *
+ * 获取共享连接池记录的服务器日志（支持增量拉取），设置日志级别或清空日志
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mcpPool } from '@/lib/mcp/pool';
+import { isMCPLoggingLevel } from '@/lib/mcp/logs';
+
+type LogAction = 'setLevel' | 'clear';
+
+export async function GET(req: NextRequest) {
+  const serverId = req.nextUrl.searchParams.get('serverId');
+  if (!serverId) {
+    return NextResponse.json(
+      { error: 'Missing serverId parameter' },
+      { status: 400 }
+    );
+  }
+
+  const afterSeq = Number(req.nextUrl.searchParams.get('after')) || 0;
+  return NextResponse.json({ serverId, ...mcpPool.getLogs(serverId, afterSeq) });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId, action, level } = await req.json() as {
+      serverId?: string;
+      action?: LogAction;
+      level?: string;
+    };
+
+    if (!serverId) {
+      return NextResponse.json(
+        { error: 'Missing serverId parameter' },
+        { status: 400 }
+      );
+    }
+
+    switch (action) {
+      case 'setLevel':
+        if (!isMCPLoggingLevel(level)) {
+          return NextResponse.json(
+            { error: `Invalid log level: ${level}` },
+            { status: 400 }
+          );
+        }
+        await mcpPool.setLogLevel(serverId, level);
+        return NextResponse.json({ serverId, level });
+
+      case 'clear':
+        mcpPool.clearLogs(serverId);
+        return NextResponse.json({ serverId, cleared: true });
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+
+  } catch (error) {
+    console.error('MCP logs error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * MCP OAuth 授权 API
+ * 
+ * 为需要授权的 MCP 服务器发起 OAuth 授权码流程，返回授权页面地址
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveMCPServer } from '@/lib/mcp/registry';
+import { startAuthorization } from '@/lib/mcp/oauth';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId } = await req.json();
+
+    if (!serverId) {
+      return NextResponse.json(
+        { error: 'Missing serverId parameter' },
+        { status: 400 }
+      );
+    }
+
+    const serverConfig = await resolveMCPServer(serverId);
+    if (!serverConfig) {
+      return NextResponse.json(
+        { error: `Server not found: ${serverId}` },
+        { status: 404 }
+      );
+    }
+
+    // 授权服务器完成授权后重定向回本应用的回调地址
+    const redirectUri = `${req.nextUrl.origin}/api/mcp/oauth/callback`;
+    const authorizationUrl = await startAuthorization(serverConfig, redirectUri);
+
+    return NextResponse.json({ serverId, authorizationUrl });
+
+  } catch (error) {
+    console.error('MCP OAuth authorize error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
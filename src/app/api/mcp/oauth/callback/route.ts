@@ -0,0 +1,69 @@
+/**
+ * MCP OAuth 回调
+ * 
+ * 授权服务器重定向到此地址：用授权码换取令牌，
+ * 然后通知打开授权窗口的页面并关闭窗口
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { completeAuthorization } from '@/lib/mcp/oauth';
+
+/**
+ * 转义 HTML 文本
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * 生成回调结果页面
+ */
+function renderResult(serverId: string | null, error?: string): NextResponse {
+  const message = { type: 'mcp-oauth-complete', serverId, success: !error, error };
+  // 防止数据中的 </script> 提前结束脚本
+  const payload = JSON.stringify(message).replace(/</g, '\\u003c');
+  const text = error ? `授权失败：${escapeHtml(error)}` : '授权成功，可以关闭此窗口。';
+
+  const html = `<!DOCTYPE html>
+<html lang="zh-CN">
+<head><meta charset="utf-8"><title>MCP 授权</title></head>
+<body style="font-family: sans-serif; padding: 2rem; color: #334155;">
+<p>${text}</p>
+<script>
+  if (window.opener) {
+    window.opener.postMessage(${payload}, window.location.origin);
+    ${error ? '' : 'window.close();'}
+  }
+</script>
+</body>
+</html>`;
+
+  return new NextResponse(html, {
+    status: error ? 400 : 200,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const state = params.get('state');
+  const code = params.get('code');
+  const authError = params.get('error');
+
+  if (authError) {
+    const description = params.get('error_description');
+    return renderResult(null, description ? `${authError}: ${description}` : authError);
+  }
+
+  if (!state || !code) {
+    return renderResult(null, 'Missing code or state parameter');
+  }
+
+  try {
+    const serverId = await completeAuthorization(state, code);
+    return renderResult(serverId);
+  } catch (error) {
+    console.error('MCP OAuth callback error:', error);
+    return renderResult(null, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * MCP 连接池状态 API
+ * 
+ * 获取共享连接池中各服务器的连接状态与调用统计
+ */
+
+import { NextResponse } from 'next/server';
+import { mcpPool } from '@/lib/mcp/pool';
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      servers: mcpPool.getStats(),
+    });
+
+  } catch (error) {
+    console.error('MCP pool stats error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
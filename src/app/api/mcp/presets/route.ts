@@ -0,0 +1,85 @@
+/**
+ * MCP 工具调用预设 API
+ *
+ * 获取、保存和删除调试台中的工具调用预设
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MCPToolPreset } from '@/lib/mcp/types';
+import {
+  listMCPToolPresets,
+  saveMCPToolPreset,
+  deleteMCPToolPreset,
+  validateMCPToolPreset,
+} from '@/lib/mcp/presets';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ presets: await listMCPToolPresets() });
+
+  } catch (error) {
+    console.error('MCP presets list error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { action, preset, id } = await req.json() as {
+      action?: 'save' | 'delete';
+      preset?: Partial<MCPToolPreset>;
+      id?: string;
+    };
+
+    if (action === 'save') {
+      if (!preset) {
+        return NextResponse.json(
+          { error: 'Missing preset parameter' },
+          { status: 400 }
+        );
+      }
+
+      const validationError = validateMCPToolPreset(preset);
+      if (validationError) {
+        return NextResponse.json(
+          { error: validationError },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({ preset: await saveMCPToolPreset(preset) });
+    }
+
+    if (action === 'delete') {
+      if (!id) {
+        return NextResponse.json(
+          { error: 'Missing id parameter' },
+          { status: 400 }
+        );
+      }
+
+      if (!await deleteMCPToolPreset(id)) {
+        return NextResponse.json(
+          { error: `Preset not found: ${id}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ id, deleted: true });
+    }
+
+    return NextResponse.json(
+      { error: `Unknown action: ${action}` },
+      { status: 400 }
+    );
+
+  } catch (error) {
+    console.error('MCP presets error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
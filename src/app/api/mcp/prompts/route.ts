@@ -0,0 +1,59 @@
+/**
+ * MCP 提示词 API
+ *
+ * 列出 MCP 服务器提供的提示词，并按参数渲染提示词消息
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mcpPool } from '@/lib/mcp/pool';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId, action = 'list', name, arguments: args } = await req.json() as {
+      serverId?: string;
+      action?: 'list' | 'get';
+      name?: string;
+      arguments?: Record<string, string>;
+    };
+
+    if (!serverId) {
+      return NextResponse.json(
+        { error: 'Missing serverId parameter' },
+        { status: 400 }
+      );
+    }
+
+    // 本地 arXiv 服务器不提供提示词
+    if (serverId === 'arxiv') {
+      return NextResponse.json({ serverId, prompts: [] });
+    }
+
+    if (action === 'list') {
+      const prompts = await mcpPool.withClient(serverId, client => client.listPrompts());
+      return NextResponse.json({ serverId, prompts });
+    }
+
+    if (action === 'get') {
+      if (!name) {
+        return NextResponse.json(
+          { error: 'Missing name parameter' },
+          { status: 400 }
+        );
+      }
+      const result = await mcpPool.withClient(serverId, client => client.getPrompt(name, args || {}));
+      return NextResponse.json({ serverId, name, ...result });
+    }
+
+    return NextResponse.json(
+      { error: `Unknown action: ${action}` },
+      { status: 400 }
+    );
+
+  } catch (error) {
+    console.error('MCP prompts error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
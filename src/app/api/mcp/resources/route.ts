@@ -0,0 +1,96 @@
+/**
+ * MCP 资源 API
+ *
+ * 列出、读取和订阅 MCP 服务器提供的资源
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mcpPool } from '@/lib/mcp/pool';
+
+type ResourceAction = 'list' | 'read' | 'subscribe' | 'unsubscribe';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { serverId, action = 'list', uri, onlyIfUpdated = false } = await req.json() as {
+      serverId?: string;
+      action?: ResourceAction;
+      uri?: string;
+      onlyIfUpdated?: boolean;
+    };
+
+    if (!serverId) {
+      return NextResponse.json(
+        { error: 'Missing serverId parameter' },
+        { status: 400 }
+      );
+    }
+
+    if (action !== 'list' && !uri) {
+      return NextResponse.json(
+        { error: 'Missing uri parameter' },
+        { status: 400 }
+      );
+    }
+
+    // 本地 arXiv 服务器不提供资源
+    if (serverId === 'arxiv') {
+      if (action === 'list') {
+        return NextResponse.json({ serverId, resources: [], resourceTemplates: [] });
+      }
+      return NextResponse.json(
+        { error: 'Resources are not supported by this server' },
+        { status: 400 }
+      );
+    }
+
+    // 订阅状态保存在共享连接池的客户端实例上
+    return await mcpPool.withClient(serverId, async client => {
+      switch (action) {
+        case 'list': {
+          // 资源与模板是两个独立的能力，任一失败不影响另一个
+          const [resources, resourceTemplates] = await Promise.all([
+            client.listResources().catch(error => {
+              console.warn(`[MCP] resources/list failed for ${serverId}:`, error);
+              return [];
+            }),
+            client.listResourceTemplates().catch(error => {
+              console.warn(`[MCP] resources/templates/list failed for ${serverId}:`, error);
+              return [];
+            }),
+          ]);
+          return NextResponse.json({ serverId, resources, resourceTemplates });
+        }
+
+        case 'read': {
+          // 仅在订阅的资源有更新时才重新读取
+          if (onlyIfUpdated && !client.isResourceUpdated(uri!)) {
+            return NextResponse.json({ serverId, uri, updated: false });
+          }
+          const result = await client.readResource(uri!);
+          return NextResponse.json({ serverId, uri, updated: true, contents: result.contents });
+        }
+
+        case 'subscribe':
+          await client.subscribeResource(uri!);
+          return NextResponse.json({ serverId, uri, subscribed: true });
+
+        case 'unsubscribe':
+          await client.unsubscribeResource(uri!);
+          return NextResponse.json({ serverId, uri, subscribed: false });
+
+        default:
+          return NextResponse.json(
+            { error: `Unknown action: ${action}` },
+            { status: 400 }
+          );
+      }
+    });
+
+  } catch (error) {
+    console.error('MCP resources error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * MCP 根目录 API
+ *
+ * 替换对话的根目录，替换后通知已连接的服务器重新获取
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mcpPool } from '@/lib/mcp/pool';
+import { setMCPRoots } from '@/lib/mcp/roots';
+import { isValidConversationId } from '@/lib/mcp/conversations';
+import { MCPRoot } from '@/lib/mcp/types';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { conversationId, roots } = await req.json() as { conversationId?: string; roots?: Partial<MCPRoot>[] };
+
+    if (!isValidConversationId(conversationId)) {
+      return NextResponse.json(
+        { error: 'Missing or invalid conversationId parameter' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(roots)) {
+      return NextResponse.json(
+        { error: 'Missing roots parameter' },
+        { status: 400 }
+      );
+    }
+
+    let saved: MCPRoot[];
+    try {
+      saved = setMCPRoots(conversationId, roots);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid root' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[MCP] Roots updated for conversation ${conversationId}: ${saved.map(root => root.uri).join(', ') || '(none)'}`);
+    await mcpPool.notifyRootsChanged();
+
+    return NextResponse.json({ roots: saved });
+
+  } catch (error) {
+    console.error('MCP roots error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
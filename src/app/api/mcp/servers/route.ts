@@ -1,25 +1,48 @@
 /**
  * MCP 服务器列表 API
  * 
- * 获取所有可用的 MCP 服务器配置
+ * 获取所有可用的 MCP 服务器配置（预配置与用户添加的服务器），
+ * 保存、删除用户添加的服务器，设置各服务器暴露给模型的工具，
+ * 以及按通用 mcpServers JSON 格式导入导出
  */
 
-import { NextResponse } from 'next/server';
-import { getMCPServers } from '@/lib/mcp/servers';
+import { NextRequest, NextResponse } from 'next/server';
+import { MCPServerConfig } from '@/lib/mcp/types';
+import {
+  getAllMCPServers,
+  saveUserMCPServer,
+  importUserMCPServers,
+  saveMCPToolSettings,
+  deleteUserMCPServer,
+  redactMCPServerConfig,
+} from '@/lib/mcp/registry';
+import { mcpPool } from '@/lib/mcp/pool';
+import { clearOAuthData } from '@/lib/mcp/oauth';
+import { parseMCPServersFile, toMCPServersFile } from '@/lib/mcp/config-format';
+import { ARXIV_TOOLS } from '@/lib/mcp/arxiv-client';
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
-    const servers = getMCPServers();
+    const servers = await getAllMCPServers();
+
+    // 导出为 mcpServers JSON 文件
+    if (req.nextUrl.searchParams.get('format') === 'mcpServers') {
+      return new NextResponse(JSON.stringify(toMCPServersFile(servers), null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="mcp-servers.json"',
+        },
+      });
+    }
     
     return NextResponse.json({
-      servers: servers.map(server => ({
-        id: server.id,
-        name: server.name,
-        description: server.description,
-        endpoint: server.endpoint,
-        icon: server.icon,
-        enabled: server.enabled,
-      })),
+      servers: servers.map(server => {
+        const config = redactMCPServerConfig(server);
+        return {
+          ...config,
+          transport: config.transport || 'http',
+        };
+      }),
     });
 
   } catch (error) {
@@ -30,3 +53,125 @@ export async function GET() {
     );
   }
 }
+
+export async function POST(req: NextRequest) {
+  try {
+    const { action, config, serverId, data } = await req.json() as {
+      action?: 'save' | 'import' | 'tools' | 'delete';
+      config?: Partial<MCPServerConfig>;
+      serverId?: string;
+      // 导入的 mcpServers JSON 文本
+      data?: string;
+    };
+
+    if (action === 'save') {
+      if (!config) {
+        return NextResponse.json(
+          { error: 'Missing config parameter' },
+          { status: 400 }
+        );
+      }
+
+      let saved: MCPServerConfig;
+      try {
+        saved = await saveUserMCPServer(config);
+      } catch (validationError) {
+        return NextResponse.json(
+          { error: validationError instanceof Error ? validationError.message : 'Invalid server config' },
+          { status: 400 }
+        );
+      }
+
+      // 配置已变化，丢弃旧连接，下次使用时按新配置重连
+      mcpPool.removeServer(saved.id);
+      return NextResponse.json({ server: redactMCPServerConfig(saved) });
+    }
+
+    if (action === 'import') {
+      if (!data) {
+        return NextResponse.json(
+          { error: 'Missing data parameter' },
+          { status: 400 }
+        );
+      }
+
+      let parsed: ReturnType<typeof parseMCPServersFile>;
+      try {
+        parsed = parseMCPServersFile(data);
+      } catch (parseError) {
+        return NextResponse.json(
+          { error: parseError instanceof Error ? parseError.message : 'Invalid mcpServers JSON' },
+          { status: 400 }
+        );
+      }
+
+      const { imported, skipped } = await importUserMCPServers(parsed.servers);
+      imported.forEach(server => mcpPool.removeServer(server.id));
+
+      return NextResponse.json({
+        servers: imported.map(redactMCPServerConfig),
+        skipped: [...parsed.skipped, ...skipped],
+      });
+    }
+
+    if (action === 'tools') {
+      if (!serverId || !config) {
+        return NextResponse.json(
+          { error: 'Missing serverId or config parameter' },
+          { status: 400 }
+        );
+      }
+
+      // 别名不能与服务器上的其他工具重名；未连接时无法获知工具列表，暴露给模型时仍会排除冲突的别名
+      const tools = serverId === 'arxiv' ? ARXIV_TOOLS : mcpPool.getClient(serverId)?.getTools() ?? [];
+
+      let updated: MCPServerConfig;
+      try {
+        updated = await saveMCPToolSettings(serverId, {
+          toolsEnabledByDefault: config.toolsEnabledByDefault,
+          approvalPolicy: config.approvalPolicy,
+          toolSettings: config.toolSettings,
+        }, tools.map(tool => tool.name));
+      } catch (validationError) {
+        return NextResponse.json(
+          { error: validationError instanceof Error ? validationError.message : 'Invalid tool settings' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({ server: redactMCPServerConfig(updated) });
+    }
+
+    if (action === 'delete') {
+      if (!serverId) {
+        return NextResponse.json(
+          { error: 'Missing serverId parameter' },
+          { status: 400 }
+        );
+      }
+
+      if (!await deleteUserMCPServer(serverId)) {
+        return NextResponse.json(
+          { error: `Server not found: ${serverId}` },
+          { status: 404 }
+        );
+      }
+
+      mcpPool.removeServer(serverId);
+      await clearOAuthData(serverId);
+      return NextResponse.json({ serverId, deleted: true });
+    }
+
+    return NextResponse.json(
+      { error: `Unknown action: ${action}` },
+      { status: 400 }
+    );
+
+  } catch (error) {
+    console.error('MCP servers update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
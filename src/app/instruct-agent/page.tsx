@@ -13,6 +13,13 @@ import { extractTextFromFile } from '@/lib/instruct-agent/file-parser';
 import { useSidebar } from '@/components/SidebarContext';
 import CustomSelect from '@/components/CustomSelect';
 import MermaidDiagram from '@/components/MermaidDiagram';
+import MCPPromptPicker, { MCPPromptPickerHandle } from '@/components/MCPPromptPicker';
+import MCPToolApprovalCard, { MCPToolApprovalRequest } from '@/components/MCPToolApprovalCard';
+import MCPStructuredResult from '@/components/MCPStructuredResult';
+import MCPToolMedia from '@/components/MCPToolMedia';
+import MCPSamplingApprovalCard, { MCPSamplingRequest } from '@/components/MCPSamplingApprovalCard';
+import MCPElicitationForm, { MCPElicitationRequest } from '@/components/MCPElicitationForm';
+import type { MCPContent } from '@/lib/mcp/types';
 
 interface CodeProps {
   node?: any;
@@ -43,17 +50,43 @@ interface UploadedImage {
   error?: string;
 }
 
+// MCP 工具调用进度
+interface MCPToolCallProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
 // MCP 工具调用状态
 interface MCPToolCallStatus {
+  callId?: string;
   serverId: string;
   toolName: string;
-  status: 'running' | 'completed' | 'error';
+  status: 'awaiting_approval' | 'running' | 'completed' | 'denied' | 'error';
   preview?: string;
   error?: string;
+  progress?: MCPToolCallProgress;
+  // 等待用户确认时的请求
+  approval?: MCPToolApprovalRequest;
+  // 工具返回的结构化结果
+  structuredContent?: Record<string, unknown>;
+  // 工具返回的图片和音频
+  media?: MCPContent[];
 }
 
 export default function InstructAgentPage() {
-  const { isExpanded, enabledServerIds, mcpServers } = useSidebar();
+  const {
+    isExpanded,
+    enabledServerIds,
+    mcpServers,
+    attachedResources,
+    detachMCPResource,
+    clearMCPResources,
+    refreshMCPResources,
+    reportMCPConnectionState,
+    conversationId,
+    startNewConversation,
+  } = useSidebar();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -71,12 +104,21 @@ export default function InstructAgentPage() {
   const [isProcessingFile, setIsProcessingFile] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [activeToolCalls, setActiveToolCalls] = useState<MCPToolCallStatus[]>([]);
+  // MCP 服务器等待确认的采样请求
+  const [samplingRequests, setSamplingRequests] = useState<MCPSamplingRequest[]>([]);
+  // MCP 服务器等待用户填写的征询表单
+  const [elicitations, setElicitations] = useState<MCPElicitationRequest[]>([]);
+  // 已结束的工具调用，按助手消息 ID 保存，回答完成后仍可查看
+  const [messageToolCalls, setMessageToolCalls] = useState<Record<string, MCPToolCallStatus[]>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
   const selectedToolRef = useRef<string | null>(null);
+  const promptPickerRef = useRef<MCPPromptPickerHandle>(null);
+  // 当前响应的中止控制器，用于停止生成
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     selectedToolRef.current = selectedTool ? selectedTool.id : null;
@@ -157,9 +199,15 @@ export default function InstructAgentPage() {
   };
 
   const handleTextareaKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // 斜杠命令菜单打开时优先处理键盘导航
+    if (promptPickerRef.current?.handleKeyDown(event)) {
+      return;
+    }
+
     if (event.key === 'Enter' && !event.shiftKey) {
       const hasContext = documentContext.some(doc => doc.content && !doc.error) ||
-        imageAttachments.some(img => img.base64 && !img.error);
+        imageAttachments.some(img => img.base64 && !img.error) ||
+        attachedResources.length > 0;
 
       if (isLoading || (input.trim() === '' && !hasContext)) {
         event.preventDefault();
@@ -355,6 +403,23 @@ export default function InstructAgentPage() {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // 插入 MCP 提示词渲染出的消息，最后一条用户消息放入输入框
+  const handlePromptInsert = (promptMessages: ChatMessage[], draft: string) => {
+    if (promptMessages.length > 0) {
+      setMessages(prev => [...prev, ...promptMessages]);
+    }
+    setInput(draft);
+    setShowPreview(false);
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (textarea) {
+        textarea.focus();
+        textarea.style.height = 'auto';
+        textarea.style.height = Math.min(textarea.scrollHeight, 200) + 'px';
+      }
+    });
+  };
+
   const removeDocument = (documentToRemove: UploadedDocument) => {
     setDocumentContext(prev => prev.filter(doc => doc !== documentToRemove));
   };
@@ -365,7 +430,7 @@ export default function InstructAgentPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const hasValidDocuments = documentContext.some(doc => doc.content && !doc.error);
+    const hasValidDocuments = documentContext.some(doc => doc.content && !doc.error) || attachedResources.length > 0;
     const hasValidImages = imageAttachments.some(img => img.base64 && !img.error);
 
     if ((input.trim() === '' && !hasValidDocuments && !hasValidImages) || isLoading) return;
@@ -383,7 +448,17 @@ export default function InstructAgentPage() {
     let combinedInput = input;
     
     // Add document context if available
-    const validDocuments = documentContext.filter(doc => doc.content && !doc.error);
+    // 已订阅的 MCP 资源在发送前拉取最新内容
+    const currentResources = attachedResources.length > 0 ? await refreshMCPResources() : [];
+    const validDocuments = [
+      ...documentContext
+        .filter(doc => doc.content && !doc.error)
+        .map(doc => ({ name: doc.file.name, content: doc.content })),
+      ...currentResources.map(resource => ({
+        name: `${resource.name} (${resource.serverName} · ${resource.uri})`,
+        content: resource.text,
+      })),
+    ];
     if (validDocuments.length > 0) {
       combinedInput += "\n\n==== DOCUMENT CONTEXT ====\n\n";
       // Add each document with clear separation and document number
@@ -392,14 +467,14 @@ export default function InstructAgentPage() {
         if (index > 0) {
           combinedInput += "----------\n\n";
         }
-        combinedInput += `[Document ${index + 1}: ${doc.file.name}]\n${doc.content}\n\n`;
+        combinedInput += `[Document ${index + 1}: ${doc.name}]\n${doc.content}\n\n`;
       });
       combinedInput += "==== END OF DOCUMENT CONTEXT ====\n\nPlease answer based on the document context when relevant.";
       
       // Log info about the document context being included
       console.log(`Including ${validDocuments.length} documents as context`);
       validDocuments.forEach((doc, idx) => {
-        console.log(`Document ${idx+1}: ${doc.file.name} (${Math.round(doc.content.length/1024)}KB)`);
+        console.log(`Document ${idx+1}: ${doc.name} (${Math.round(doc.content.length/1024)}KB)`);
       });
     }
 
@@ -450,8 +525,12 @@ export default function InstructAgentPage() {
       // 清除之前的工具调用状态
       setActiveToolCalls([]);
 
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
       const response = await fetch('/api/instruct-agent', {
         method: 'POST',
+        signal: abortController.signal,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           messages: messageHistory,
@@ -461,6 +540,7 @@ export default function InstructAgentPage() {
           model: selectedModel.id,
           imageAttachments: imagePayload,
           enabledMCPServers: connectedMCPServerIds,
+          conversationId,
         })
       });
 
@@ -507,19 +587,31 @@ export default function InstructAgentPage() {
               
               // 处理 MCP 工具调用状态
               if (parsedContent.type === 'tool_call') {
-                const { serverId, toolName, status, preview, error: toolError } = parsedContent;
+                const { callId, serverId, toolName, status, preview, error: toolError, structuredContent, media } = parsedContent;
+                if (status !== 'running') {
+                  setMessageToolCalls(prev => ({
+                    ...prev,
+                    [assistantMessageId]: [
+                      ...(prev[assistantMessageId] ?? []).filter(tc => tc.callId !== callId),
+                      { callId, serverId, toolName, status, preview, error: toolError, structuredContent, media },
+                    ],
+                  }));
+                }
                 setActiveToolCalls(prev => {
                   // 查找是否已存在该工具调用
                   const existingIndex = prev.findIndex(
-                    tc => tc.serverId === serverId && tc.toolName === toolName
+                    tc => callId ? tc.callId === callId : tc.serverId === serverId && tc.toolName === toolName
                   );
                   
                   const newStatus: MCPToolCallStatus = {
+                    callId,
                     serverId,
                     toolName,
                     status,
                     preview,
                     error: toolError,
+                    structuredContent,
+                    media,
                   };
                   
                   if (existingIndex >= 0) {
@@ -535,6 +627,56 @@ export default function InstructAgentPage() {
                 continue;
               }
               
+              // 处理 MCP 工具调用确认请求
+              if (parsedContent.type === 'tool_approval_required') {
+                const { callId, approvalId, serverId, toolName, arguments: toolArgs, policy } = parsedContent;
+                setActiveToolCalls(prev => [
+                  ...prev.filter(tc => tc.callId !== callId),
+                  {
+                    callId,
+                    serverId,
+                    toolName,
+                    status: 'awaiting_approval',
+                    approval: { approvalId, serverId, toolName, arguments: toolArgs ?? {}, policy },
+                  },
+                ]);
+                continue;
+              }
+              
+              // 处理 MCP 服务器的采样请求（需要用户确认）
+              if (parsedContent.type === 'sampling_request') {
+                const { approvalId, serverId, model: samplingModel, systemPrompt: samplingPrompt, messages: samplingMessages, maxTokens } = parsedContent;
+                setSamplingRequests(prev => [
+                  ...prev,
+                  { approvalId, serverId, model: samplingModel, systemPrompt: samplingPrompt, messages: samplingMessages ?? [], maxTokens },
+                ]);
+                continue;
+              }
+              
+              // 处理 MCP 服务器的征询请求（工具调用中途需要用户补充信息）
+              if (parsedContent.type === 'elicitation') {
+                const { elicitationId, serverId, message: elicitationMessage, requestedSchema } = parsedContent;
+                setElicitations(prev => [...prev, { elicitationId, serverId, message: elicitationMessage, requestedSchema }]);
+                continue;
+              }
+              
+              // 处理 MCP 工具调用进度
+              if (parsedContent.type === 'tool_progress') {
+                const { callId, progress, total, message: progressMessage } = parsedContent;
+                setActiveToolCalls(prev => prev.map(tc =>
+                  tc.callId === callId && tc.status === 'running'
+                    ? { ...tc, progress: { progress, total, message: progressMessage } }
+                    : tc
+                ));
+                continue;
+              }
+              
+              // 处理 MCP 连接状态变化（会话失效后的自动重连）
+              if (parsedContent.type === 'mcp_connection') {
+                reportMCPConnectionState(parsedContent.serverId, parsedContent.state);
+                continue;
+              }
+              
               // 处理警告消息
               if (parsedContent.type === 'warning') {
                 console.warn('[MCP Warning]', parsedContent.message);
@@ -557,17 +699,34 @@ export default function InstructAgentPage() {
         scrollToBottom();
       }
     } catch (error) {
+      if (abortControllerRef.current?.signal.aborted) {
+        // 用户停止生成：保留已输出的内容，仅移除空的助手消息
+        console.log('[Instruct Agent] Response stopped by user');
+        setMessages(prev => {
+          const last = prev[prev.length - 1];
+          return last?.role === 'assistant' && !last.content ? prev.slice(0, -1) : prev;
+        });
+        return;
+      }
       console.error('Error:', error);
       setError(error instanceof Error ? error.message : 'An unexpected error occurred');
       // Remove the assistant's message if there was an error
       setMessages(prev => prev.slice(0, -1)); 
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
       // 清除工具调用状态
       setActiveToolCalls([]);
+      setSamplingRequests([]);
+      setElicitations([]);
     }
   };
 
+  // 停止当前响应（服务器端会取消进行中的 MCP 工具调用）
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // 辅助函数：更新助手的消息
   const updateAssistantMessage = (id: string, content: string) => {
     setMessages(prev => {
@@ -990,9 +1149,9 @@ export default function InstructAgentPage() {
     );
   };
 
-  const hasValidDocumentsForUi = documentContext.some(doc => doc.content && !doc.error);
+  const hasValidDocumentsForUi = documentContext.some(doc => doc.content && !doc.error) || attachedResources.length > 0;
   const hasValidImagesForUi = imageAttachments.some(img => img.base64 && !img.error);
-  const hasContextItems = documentContext.length > 0 || imageAttachments.length > 0;
+  const hasContextItems = documentContext.length > 0 || imageAttachments.length > 0 || attachedResources.length > 0;
 
   const inputPlaceholder = hasValidDocumentsForUi || hasValidImagesForUi
     ? 'Ask questions about the uploaded context...'
@@ -1002,6 +1161,9 @@ export default function InstructAgentPage() {
 
   const isInputEmpty = input.trim() === '';
 
+  // 输入以 "/" 开头且尚未输入空格时进入斜杠命令模式
+  const slashQuery = /^\/(\S*)$/.exec(input)?.[1] ?? null;
+
   return (
     <main className={`h-screen overflow-hidden bg-gradient-to-br from-slate-50 via-blue-50/50 to-indigo-100/40 p-4 ${isExpanded ? 'ml-72' : 'ml-16'
     } transition-all duration-300`}>
@@ -1103,7 +1265,11 @@ export default function InstructAgentPage() {
               
               {/* 清空按钮 */}
               <button 
-                onClick={() => setMessages([])}
+                onClick={() => {
+                  setMessages([]);
+                  setMessageToolCalls({});
+                  startNewConversation();
+                }}
                 className="text-xs text-indigo-500 hover:text-indigo-700 transition-all hover:bg-indigo-50 p-1.5 rounded-lg"
                 title="清空聊天记录"
               >
@@ -1153,7 +1319,36 @@ export default function InstructAgentPage() {
                       </button>
                     )}
                     {msg.role === 'assistant' ? (
-                      <MessageContent content={msg.content} />
+                      <>
+                        <MessageContent content={msg.content} />
+                        {/* 本次回答中的工具调用与结构化结果 */}
+                        {msg.id && messageToolCalls[msg.id] && (
+                          <div className="mt-3 pt-2 border-t border-slate-100 space-y-1.5">
+                            {messageToolCalls[msg.id].map((tc, toolIdx) => (
+                              <div key={tc.callId ?? `${tc.serverId}-${tc.toolName}-${toolIdx}`}>
+                                <div className="flex items-center gap-1.5 text-xs text-slate-500">
+                                  <span
+                                    className={`material-icons-outlined text-sm ${
+                                      tc.status === 'completed' ? 'text-green-500' : tc.status === 'denied' ? 'text-slate-400' : 'text-red-500'
+                                    }`}
+                                  >
+                                    {tc.status === 'completed' ? 'check_circle' : tc.status === 'denied' ? 'block' : 'error'}
+                                  </span>
+                                  <span className="font-medium text-slate-600">{tc.toolName}</span>
+                                  <span className="truncate">{tc.serverId}</span>
+                                </div>
+                                {tc.error && <div className="ml-5 text-xs text-red-500 break-words">{tc.error}</div>}
+                                {(tc.structuredContent || tc.media) && (
+                                  <div className="ml-5">
+                                    {tc.media && <MCPToolMedia media={tc.media} />}
+                                    {tc.structuredContent && <MCPStructuredResult data={tc.structuredContent} />}
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </>
                     ) : (
                       <div className="whitespace-pre-wrap text-[15px]">{msg.content}</div>
                     )}
@@ -1175,17 +1370,50 @@ export default function InstructAgentPage() {
                     <span className="text-sm text-slate-600">Thinking...</span>
                   </div>
                   
+                  {/* MCP 服务器的采样请求 */}
+                  {samplingRequests.length > 0 && (
+                    <div className="w-full max-w-md space-y-2 mt-2">
+                      {samplingRequests.map(request => (
+                        <MCPSamplingApprovalCard
+                          key={request.approvalId}
+                          request={request}
+                          onDecided={() => setSamplingRequests(prev => prev.filter(r => r.approvalId !== request.approvalId))}
+                        />
+                      ))}
+                    </div>
+                  )}
+
+                  {/* MCP 服务器的征询表单 */}
+                  {elicitations.length > 0 && (
+                    <div className="w-full max-w-md space-y-2 mt-2">
+                      {elicitations.map(request => (
+                        <MCPElicitationForm
+                          key={request.elicitationId}
+                          request={request}
+                          onDecided={() => setElicitations(prev => prev.filter(r => r.elicitationId !== request.elicitationId))}
+                        />
+                      ))}
+                    </div>
+                  )}
+
                   {/* MCP 工具调用状态显示 */}
                   {activeToolCalls.length > 0 && (
                     <div className="w-full max-w-md space-y-2 mt-2">
-                      {activeToolCalls.map((tc, idx) => (
+                      {activeToolCalls.map((tc, idx) => tc.status === 'awaiting_approval' && tc.approval ? (
+                        <MCPToolApprovalCard
+                          key={tc.callId ?? tc.approval.approvalId}
+                          request={tc.approval}
+                        />
+                      ) : (
                         <div 
-                          key={`${tc.serverId}-${tc.toolName}-${idx}`}
+                          key={tc.callId ?? `${tc.serverId}-${tc.toolName}-${idx}`}
                           className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm ${
                             tc.status === 'running' 
                               ? 'bg-indigo-50 border border-indigo-200'
                               : tc.status === 'completed'
                               ? 'bg-green-50 border border-green-200'
+                              : tc.status === 'denied'
+                              ? 'bg-slate-50 border border-slate-200'
                               : 'bg-red-50 border border-red-200'
                           }`}
                         >
@@ -1196,7 +1424,12 @@ export default function InstructAgentPage() {
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                             </svg>
                           ) : (
-                            <svg className="h-4 w-4 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <svg
+                              className={`h-4 w-4 ${tc.status === 'denied' ? 'text-slate-400' : 'text-red-500'}`}
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                             </svg>
                           )}
@@ -1206,9 +1439,34 @@ export default function InstructAgentPage() {
                             </div>
                             <div className="text-xs text-slate-500 truncate">
                               {tc.serverId}
+                              {tc.status === 'running' && tc.progress?.message && ` • ${tc.progress.message}`}
                               {tc.preview && ` • ${tc.preview}`}
                               {tc.error && ` • ${tc.error}`}
                             </div>
+                            {tc.status === 'completed' && tc.media && <MCPToolMedia media={tc.media} />}
+                            {tc.status === 'completed' && tc.structuredContent && (
+                              <MCPStructuredResult data={tc.structuredContent} />
+                            )}
+                            {/* 工具调用进度条：有 total 时显示百分比，否则显示已完成的数量 */}
+                            {tc.status === 'running' && tc.progress && (
+                              <div className="flex items-center gap-2 mt-1.5">
+                                <div className="flex-1 h-1.5 rounded-full bg-indigo-100 overflow-hidden">
+                                  {tc.progress.total ? (
+                                    <div
+                                      className="h-full rounded-full bg-gradient-to-r from-indigo-400 to-blue-500 transition-all duration-300"
+                                      style={{ width: `${Math.min(100, (tc.progress.progress / tc.progress.total) * 100)}%` }}
+                                    />
+                                  ) : (
+                                    <div className="h-full w-1/3 rounded-full bg-gradient-to-r from-indigo-400 to-blue-500 animate-pulse" />
+                                  )}
+                                </div>
+                                <span className="text-[11px] text-indigo-600 font-medium tabular-nums flex-shrink-0">
+                                  {tc.progress.total
+                                    ? `${Math.round(Math.min(100, (tc.progress.progress / tc.progress.total) * 100))}%`
+                                    : tc.progress.progress}
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -1231,6 +1489,7 @@ export default function InstructAgentPage() {
                       onClick={() => {
                         setDocumentContext([]);
                         setImageAttachments([]);
+                        clearMCPResources();
                       }}
                       className="text-xs text-indigo-600 hover:text-indigo-700 transition-all hover:bg-indigo-100/50 px-2.5 py-1 rounded-lg font-medium"
                     >
@@ -1292,6 +1551,26 @@ export default function InstructAgentPage() {
                         )}
                       </div>
                     ))}
+                    {attachedResources.map(resource => (
+                      <div 
+                        key={`resource-${resource.serverId}-${resource.uri}`} 
+                        className="flex items-center px-3 py-1.5 rounded-lg text-sm border transition-all bg-white/80 backdrop-blur-sm text-emerald-700 border-emerald-200/60 shadow-sm"
+                      >
+                        <span className="material-icons-outlined mr-2 text-sm">
+                          {resource.subscribed ? 'notifications_active' : 'link'}
+                        </span>
+                        <span className="truncate max-w-[150px]" title={`${resource.serverName} · ${resource.uri}`}>
+                          {resource.name}
+                        </span>
+                        <button 
+                          onClick={() => detachMCPResource(resource.serverId, resource.uri)}
+                          className="ml-2 text-current hover:text-emerald-900"
+                          title="Remove resource"
+                        >
+                          <span className="material-icons-outlined text-sm">close</span>
+                        </button>
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -1328,6 +1607,14 @@ export default function InstructAgentPage() {
                   </button>
                   
                   <div className="relative flex-1">
+                    {/* MCP 提示词斜杠命令 */}
+                    <MCPPromptPicker
+                      ref={promptPickerRef}
+                      query={showPreview ? null : slashQuery}
+                      onInsert={handlePromptInsert}
+                      onClose={() => setInput('')}
+                    />
+                    
                     {/* 预览/编辑切换按钮 */}
                     {input.trim() && (
                       <button
@@ -1367,13 +1654,23 @@ export default function InstructAgentPage() {
                       />
                     )}
                   </div>
-                  <button
-                    type="submit"
-                    disabled={isSubmitDisabled}
-                    className="px-5 py-2.5 bg-gradient-to-r from-indigo-500 via-blue-500 to-indigo-600 text-white rounded-xl hover:from-indigo-600 hover:via-blue-600 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 border-none shadow-lg shadow-indigo-200/50 hover:shadow-xl hover:shadow-indigo-300/50 font-medium"
-                  >
-                    Send
-                  </button>
+                  {isLoading ? (
+                    <button
+                      type="button"
+                      onClick={handleStop}
+                      className="px-5 py-2.5 bg-white text-slate-700 rounded-xl ring-1 ring-slate-300 hover:bg-slate-50 hover:ring-slate-400 focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-offset-2 transition-all duration-200 shadow-lg shadow-slate-200/50 font-medium"
+                    >
+                      Stop
+                    </button>
+                  ) : (
+                    <button
+                      type="submit"
+                      disabled={isSubmitDisabled}
+                      className="px-5 py-2.5 bg-gradient-to-r from-indigo-500 via-blue-500 to-indigo-600 text-white rounded-xl hover:from-indigo-600 hover:via-blue-600 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 border-none shadow-lg shadow-indigo-200/50 hover:shadow-xl hover:shadow-indigo-300/50 font-medium"
+                    >
+                      Send
+                    </button>
+                  )}
                 </form>
               </div>
             </div>
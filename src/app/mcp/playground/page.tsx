@@ -0,0 +1,490 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { AlertCircle, ArrowLeft, Bookmark, Clock, Loader2, Play, Search, Trash2, Wrench } from 'lucide-react';
+import { useSidebar } from '@/components/SidebarContext';
+import MCPToolArgumentsForm from '@/components/MCPToolArgumentsForm';
+import MCPToolMedia from '@/components/MCPToolMedia';
+import MCPStructuredResult from '@/components/MCPStructuredResult';
+import { MCPJSONSchema, MCPMessage, MCPTool, MCPToolCallResult, MCPToolPreset } from '@/lib/mcp/types';
+import { mcpContentToText, mcpResultMedia } from '@/lib/mcp/content';
+import { validateJSONSchema } from '@/lib/mcp/schema';
+import { getDefaultToolArguments, pruneToolArguments } from '@/lib/mcp/tool-arguments';
+
+// 选中的工具
+interface SelectedTool {
+  serverId: string;
+  tool: MCPTool;
+}
+
+// 一次调用的结果
+interface PlaygroundRun {
+  serverId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  result?: MCPToolCallResult;
+  error?: string;
+  durationMs?: number;
+  messages?: MCPMessage[];
+}
+
+type ArgumentsMode = 'form' | 'json';
+type ResultTab = 'content' | 'raw';
+
+const cardClassName = 'bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-indigo-100/50 shadow-lg shadow-indigo-100/20';
+
+/**
+ * 调用预设 API
+ */
+async function postPresetAction(body: Record<string, unknown>) {
+  const response = await fetch('/api/mcp/presets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Preset request failed: ${response.status}`);
+  }
+  return data;
+}
+
+// MCP 工具调试台：按 inputSchema 填写参数、调用工具，查看原始 JSON-RPC 报文与渲染结果
+export default function MCPPlaygroundPage() {
+  const { isExpanded, mcpServers, enabledServerIds } = useSidebar();
+
+  const [keyword, setKeyword] = useState('');
+  const [selected, setSelected] = useState<SelectedTool | null>(null);
+  const [args, setArgs] = useState<Record<string, unknown>>({});
+  // 切换工具或载入预设时重新挂载表单，丢弃表单内部状态
+  const [formKey, setFormKey] = useState(0);
+  const [mode, setMode] = useState<ArgumentsMode>('form');
+  const [jsonText, setJsonText] = useState('{}');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+
+  const [isRunning, setIsRunning] = useState(false);
+  const [run, setRun] = useState<PlaygroundRun | null>(null);
+  const [resultTab, setResultTab] = useState<ResultTab>('content');
+
+  const [presets, setPresets] = useState<MCPToolPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+
+  // 已启用且已连接的服务器
+  const connectedServers = useMemo(
+    () => mcpServers.filter(s => s.isConnected && enabledServerIds.has(s.config.id)),
+    [mcpServers, enabledServerIds]
+  );
+
+  const filteredServers = useMemo(() => {
+    const search = keyword.trim().toLowerCase();
+    return connectedServers
+      .map(server => ({
+        server,
+        tools: server.tools.filter(tool => !search ||
+          tool.name.toLowerCase().includes(search) ||
+          (tool.title ?? '').toLowerCase().includes(search) ||
+          (tool.description ?? '').toLowerCase().includes(search)),
+      }))
+      .filter(({ tools }) => tools.length > 0);
+  }, [connectedServers, keyword]);
+
+  useEffect(() => {
+    fetch('/api/mcp/presets')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.presets) setPresets(data.presets as MCPToolPreset[]);
+      })
+      .catch(error => {
+        console.warn('[MCP] Failed to load presets:', error);
+      });
+  }, []);
+
+  const loadArguments = (next: Record<string, unknown>) => {
+    setArgs(next);
+    setJsonText(JSON.stringify(next, null, 2));
+    setJsonError(null);
+    setFormKey(prev => prev + 1);
+  };
+
+  const selectTool = (serverId: string, tool: MCPTool) => {
+    setSelected({ serverId, tool });
+    loadArguments(getDefaultToolArguments(tool.inputSchema));
+    setPresetError(null);
+  };
+
+  const switchMode = (next: ArgumentsMode) => {
+    if (next === mode) return;
+    if (next === 'json') {
+      setJsonText(JSON.stringify(pruneToolArguments(args), null, 2));
+      setJsonError(null);
+    } else if (jsonError) {
+      return;
+    } else {
+      setFormKey(prev => prev + 1);
+    }
+    setMode(next);
+  };
+
+  const handleJsonChange = (text: string) => {
+    setJsonText(text);
+    try {
+      const parsed = JSON.parse(text || '{}');
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error();
+      }
+      setArgs(parsed);
+      setJsonError(null);
+    } catch {
+      setJsonError('参数必须是 JSON 对象');
+    }
+  };
+
+  const callArguments = useMemo(() => pruneToolArguments(args), [args]);
+
+  // 参数校验结果仅作提示，仍允许调用（便于测试服务器对非法参数的处理）
+  const validationErrors = useMemo(
+    () => selected ? validateJSONSchema(callArguments, selected.tool.inputSchema as MCPJSONSchema) : [],
+    [selected, callArguments]
+  );
+
+  const runTool = async () => {
+    if (!selected || isRunning || jsonError) return;
+    const { serverId, tool } = selected;
+
+    setIsRunning(true);
+    setResultTab('content');
+    try {
+      const response = await fetch('/api/mcp/call', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serverId, toolName: tool.name, arguments: callArguments, trace: true }),
+      });
+      const data = await response.json().catch(() => ({}));
+      setRun({
+        serverId,
+        toolName: tool.name,
+        arguments: callArguments,
+        result: data.result,
+        error: response.ok ? undefined : data.error || `Tool call failed: ${response.status}`,
+        durationMs: data.durationMs,
+        messages: data.messages,
+      });
+    } catch (err) {
+      setRun({
+        serverId,
+        toolName: tool.name,
+        arguments: callArguments,
+        error: err instanceof Error ? err.message : '调用失败',
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const savePreset = async () => {
+    if (!selected || !presetName.trim()) return;
+    setPresetError(null);
+    try {
+      const data = await postPresetAction({
+        action: 'save',
+        preset: {
+          name: presetName.trim(),
+          serverId: selected.serverId,
+          toolName: selected.tool.name,
+          arguments: callArguments,
+        },
+      });
+      setPresets(prev => [...prev, data.preset as MCPToolPreset]);
+      setPresetName('');
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : '保存预设失败');
+    }
+  };
+
+  const deletePreset = async (id: string) => {
+    setPresetError(null);
+    try {
+      await postPresetAction({ action: 'delete', id });
+      setPresets(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : '删除预设失败');
+    }
+  };
+
+  const applyPreset = (preset: MCPToolPreset) => {
+    const tool = mcpServers.find(s => s.config.id === preset.serverId)?.tools.find(t => t.name === preset.toolName);
+    if (!tool) {
+      setPresetError(`工具 ${preset.toolName} 不可用，请先连接服务器 ${preset.serverId}`);
+      return;
+    }
+    setSelected({ serverId: preset.serverId, tool });
+    loadArguments(preset.arguments);
+    setPresetError(null);
+  };
+
+  const media = run?.result ? mcpResultMedia(run.result) : [];
+  const text = run?.result?.content
+    .filter(content => content.type === 'text' || content.type === 'resource')
+    .map(mcpContentToText)
+    .filter(Boolean)
+    .join('\n\n');
+
+  return (
+    <main className={`min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/50 to-indigo-100/40 p-4 ${isExpanded ? 'ml-72' : 'ml-16'
+    } transition-all duration-300`}>
+      <div className="w-full flex flex-col gap-4">
+
+        <div className="relative flex justify-center items-center bg-white/80 backdrop-blur-xl px-6 py-3 rounded-2xl border border-indigo-100/50 shadow-lg shadow-indigo-100/20">
+          <Link
+            href="/"
+            className="absolute left-4 flex items-center gap-1 text-sm text-indigo-500 hover:text-indigo-700"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            返回对话
+          </Link>
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600 bg-clip-text text-transparent tracking-tight">
+            🧪 MCP Playground
+          </h1>
+        </div>
+
+        <div className="flex gap-4 items-start">
+          {/* 工具列表与预设 */}
+          <div className="w-72 flex-shrink-0 space-y-4">
+            <div className={cardClassName}>
+              <div className="relative mb-3">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400" />
+                <input
+                  value={keyword}
+                  onChange={(e) => setKeyword(e.target.value)}
+                  placeholder="搜索工具"
+                  className="w-full pl-8 pr-2.5 py-1.5 text-sm rounded-lg border border-indigo-200/60 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-400/50"
+                />
+              </div>
+
+              {connectedServers.length === 0 ? (
+                <p className="text-sm text-slate-400">没有已连接的 MCP 服务器，请先在侧边栏启用</p>
+              ) : filteredServers.length === 0 ? (
+                <p className="text-sm text-slate-400">没有匹配的工具</p>
+              ) : (
+                <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-0.5">
+                  {filteredServers.map(({ server, tools }) => (
+                    <div key={server.config.id}>
+                      <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider mb-1">{server.config.name}</div>
+                      <div className="space-y-0.5">
+                        {tools.map(tool => {
+                          const isActive = selected?.serverId === server.config.id && selected.tool.name === tool.name;
+                          return (
+                            <button
+                              key={tool.name}
+                              onClick={() => selectTool(server.config.id, tool)}
+                              className={`w-full text-left px-2 py-1.5 rounded-lg transition-colors ${
+                                isActive ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700 hover:bg-slate-50'
+                              }`}
+                              title={tool.description}
+                            >
+                              <div className="text-sm font-medium truncate">{tool.title || tool.name}</div>
+                              {tool.title && <div className="text-[11px] text-slate-400 font-mono truncate">{tool.name}</div>}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className={cardClassName}>
+              <div className="flex items-center gap-1.5 mb-2">
+                <Bookmark className="w-3.5 h-3.5 text-indigo-400" />
+                <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">预设</span>
+              </div>
+              {presets.length === 0 ? (
+                <p className="text-xs text-slate-400">暂无预设，调用工具前可将参数保存为预设</p>
+              ) : (
+                <div className="space-y-1">
+                  {presets.map(preset => (
+                    <div key={preset.id} className="group flex items-center gap-1.5 rounded-lg px-2 py-1 hover:bg-slate-50">
+                      <button onClick={() => applyPreset(preset)} className="flex-1 min-w-0 text-left">
+                        <div className="text-sm text-slate-700 truncate">{preset.name}</div>
+                        <div className="text-[11px] text-slate-400 truncate">{preset.serverId} / {preset.toolName}</div>
+                      </button>
+                      <button
+                        onClick={() => deletePreset(preset.id)}
+                        className="hidden group-hover:block p-0.5 rounded text-slate-400 hover:text-red-500"
+                        title="删除预设"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {presetError && <p className="mt-2 text-xs text-red-500 break-words">{presetError}</p>}
+            </div>
+          </div>
+
+          {/* 参数与结果 */}
+          <div className="flex-1 min-w-0 space-y-4">
+            {!selected ? (
+              <div className={`${cardClassName} flex flex-col items-center justify-center py-16 text-slate-400`}>
+                <Wrench className="w-8 h-8 mb-2" />
+                <p className="text-sm">选择左侧的工具开始调试</p>
+              </div>
+            ) : (
+              <div className={cardClassName}>
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div className="min-w-0">
+                    <div className="text-lg font-semibold text-slate-800 truncate">{selected.tool.title || selected.tool.name}</div>
+                    <div className="text-xs text-slate-400 font-mono">{selected.serverId} / {selected.tool.name}</div>
+                    {selected.tool.description && (
+                      <p className="mt-1 text-sm text-slate-500 whitespace-pre-wrap">{selected.tool.description}</p>
+                    )}
+                  </div>
+                  <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs flex-shrink-0">
+                    {(['form', 'json'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => switchMode(option)}
+                        className={`px-2.5 py-1 rounded-md transition-colors ${
+                          mode === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                      >
+                        {option === 'form' ? '表单' : 'JSON'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {mode === 'form' ? (
+                  <MCPToolArgumentsForm
+                    key={formKey}
+                    schema={selected.tool.inputSchema}
+                    value={args}
+                    onChange={setArgs}
+                  />
+                ) : (
+                  <>
+                    <textarea
+                      value={jsonText}
+                      onChange={(e) => handleJsonChange(e.target.value)}
+                      rows={Math.min(16, Math.max(4, jsonText.split('\n').length))}
+                      spellCheck={false}
+                      className={`w-full px-2.5 py-1.5 text-xs font-mono rounded-lg border border-indigo-200/60 bg-white resize-y
+                        focus:outline-none focus:ring-2 focus:ring-indigo-400/50`}
+                    />
+                    {jsonError && <p className="text-xs text-red-500">{jsonError}</p>}
+                  </>
+                )}
+
+                {validationErrors.length > 0 && (
+                  <div className="mt-3 flex items-start gap-1.5 text-xs text-amber-600">
+                    <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                    <div className="space-y-0.5">
+                      {validationErrors.map(error => <p key={error} className="break-words">{error}</p>)}
+                    </div>
+                  </div>
+                )}
+
+                <div className="mt-4 flex items-center gap-2">
+                  <input
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+                    placeholder="预设名称"
+                    className="w-48 px-2.5 py-1.5 text-sm rounded-lg border border-indigo-200/60 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-400/50"
+                  />
+                  <button
+                    onClick={savePreset}
+                    disabled={!presetName.trim() || !!jsonError}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-indigo-600 rounded-lg
+                      bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                    <Bookmark className="w-3.5 h-3.5" />
+                    保存为预设
+                  </button>
+                  <button
+                    onClick={runTool}
+                    disabled={isRunning || !!jsonError}
+                    className={`ml-auto flex items-center gap-1.5 px-4 py-1.5 text-sm font-medium text-white rounded-lg
+                      bg-gradient-to-r from-indigo-500 to-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                    {isRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                    运行
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {run && (
+              <div className={cardClassName}>
+                <div className="flex items-center gap-3 mb-3">
+                  <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                    run.error || run.result?.isError ? 'bg-red-50 text-red-600' : 'bg-emerald-50 text-emerald-600'
+                  }`}>
+                    {run.error ? '调用失败' : run.result?.isError ? '工具返回错误' : '成功'}
+                  </span>
+                  <span className="text-xs text-slate-500 font-mono truncate">{run.serverId} / {run.toolName}</span>
+                  {run.durationMs !== undefined && (
+                    <span className="flex items-center gap-1 text-xs text-slate-500">
+                      <Clock className="w-3 h-3" />
+                      {run.durationMs} ms
+                    </span>
+                  )}
+                  <div className="ml-auto flex rounded-lg bg-slate-100 p-0.5 text-xs">
+                    {(['content', 'raw'] as const).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setResultTab(option)}
+                        className={`px-2.5 py-1 rounded-md transition-colors ${
+                          resultTab === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                      >
+                        {option === 'content' ? '内容' : 'JSON-RPC'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {resultTab === 'content' ? (
+                  <div className="space-y-2">
+                    {run.error && <p className="text-sm text-red-500 whitespace-pre-wrap break-words">{run.error}</p>}
+                    {text && (
+                      <pre className="max-h-[480px] overflow-auto rounded-lg bg-slate-50 ring-1 ring-slate-200/70 p-3 text-xs text-slate-700 whitespace-pre-wrap break-words">
+                        {text}
+                      </pre>
+                    )}
+                    {media.length > 0 && <MCPToolMedia media={media} />}
+                    {run.result?.structuredContent && <MCPStructuredResult data={run.result.structuredContent} />}
+                    {!run.error && !text && media.length === 0 && !run.result?.structuredContent && (
+                      <p className="text-sm text-slate-400">工具没有返回内容</p>
+                    )}
+                  </div>
+                ) : run.messages && run.messages.length > 0 ? (
+                  <div className="space-y-2">
+                    {run.messages.map((message, index) => (
+                      <div key={index}>
+                        <div className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider mb-0.5">
+                          {'method' in message ? '→ 请求' : '← 响应'}
+                        </div>
+                        <pre className="max-h-[360px] overflow-auto rounded-lg bg-slate-900 p-3 text-xs text-slate-100">
+                          {JSON.stringify(message, null, 2)}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-400">
+                    {run.serverId === 'arxiv' ? '本地工具不经过 JSON-RPC，没有报文' : '没有记录到 JSON-RPC 报文'}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
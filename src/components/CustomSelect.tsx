@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 
 interface Option {
@@ -18,31 +18,26 @@ interface CustomSelectProps {
   className?: string;
 }
 
-export default function CustomSelect({
-  value,
-  onChange,
-  options,
-  disabled = false,
-  placeholder = '请选择...',
-  icon,
-  className = ''
-}: CustomSelectProps) {
-  const [isOpen, setIsOpen] = useState(false);
+/**
+ * 浮动菜单：菜单通过 Portal 渲染到 body，按触发元素的位置定位，
+ * 点击外部或外部滚动时关闭（菜单内部滚动不关闭）
+ */
+export function useFloatingMenu<T extends HTMLElement>(isOpen: boolean, onClose: () => void, minWidth = 220) {
   const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0, width: 0 });
-  const containerRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<T>(null);
   const menuRef = useRef<HTMLDivElement>(null);
   const [mounted, setMounted] = useState(false);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
 
-  const selectedOption = options.find(opt => opt.value === value);
-
-  const isEventInsideMenu = (event: Event) => {
+  const isEventInsideMenu = useCallback((event: Event) => {
     const path = event.composedPath();
     const menuEl = menuRef.current;
     const containerEl = containerRef.current;
     const insideMenu = menuEl ? path.includes(menuEl) : false;
     const insideContainer = containerEl ? path.includes(containerEl) : false;
     return insideMenu || insideContainer;
-  };
+  }, []);
 
   // 确保组件已挂载（用于 Portal）
   useEffect(() => {
@@ -56,15 +51,15 @@ export default function CustomSelect({
       setMenuPosition({
         top: rect.bottom + window.scrollY + 4,
         left: rect.left + window.scrollX,
-        width: Math.max(rect.width, 220)
+        width: Math.max(rect.width, minWidth)
       });
     }
-  }, [isOpen]);
+  }, [isOpen, minWidth]);
 
   useEffect(() => {
     const handlePointerDown = (event: MouseEvent) => {
       if (!isEventInsideMenu(event)) {
-        setIsOpen(false);
+        onCloseRef.current();
       }
     };
 
@@ -80,7 +75,7 @@ export default function CustomSelect({
     const handleScroll = (event: Event) => {
       // 允许在下拉列表内部滚动而不关闭菜单
       if (isEventInsideMenu(event)) return;
-      if (isOpen) setIsOpen(false);
+      onCloseRef.current();
     };
 
     if (isOpen) {
@@ -89,6 +84,23 @@ export default function CustomSelect({
     }
   }, [isEventInsideMenu, isOpen]);
 
+  return { containerRef, menuRef, menuPosition, mounted };
+}
+
+export default function CustomSelect({
+  value,
+  onChange,
+  options,
+  disabled = false,
+  placeholder = '请选择...',
+  icon,
+  className = ''
+}: CustomSelectProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { containerRef, menuRef, menuPosition, mounted } = useFloatingMenu<HTMLDivElement>(isOpen, () => setIsOpen(false));
+
+  const selectedOption = options.find(opt => opt.value === value);
+
   const handleSelect = (optionValue: string) => {
     onChange(optionValue);
     setIsOpen(false);
@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { useFloatingMenu } from './CustomSelect';
+import { MCPCompletion, MCPCompletionReference } from '@/lib/mcp/types';
+
+interface MCPCompletionInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> {
+  serverId: string;
+  reference: MCPCompletionReference;
+  argumentName: string;
+  value: string;
+  onChange: (value: string) => void;
+  // 已填写的其他参数，供服务器按上下文补全
+  contextArguments?: Record<string, string>;
+  // 服务器未声明 completions 能力时退化为普通输入框
+  enabled?: boolean;
+}
+
+// 输入停止后再请求补全
+const COMPLETION_DEBOUNCE_MS = 250;
+
+// 带 MCP 参数补全的输入框：输入时请求 completion/complete，在下拉菜单中显示候选值
+const MCPCompletionInput: React.FC<MCPCompletionInputProps> = ({
+  serverId,
+  reference,
+  argumentName,
+  value,
+  onChange,
+  contextArguments,
+  enabled = true,
+  onKeyDown,
+  onFocus,
+  onBlur,
+  ...inputProps
+}) => {
+  const [completion, setCompletion] = useState<MCPCompletion>({ values: [] });
+  const [isFocused, setIsFocused] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // 选中候选值后不再为该值请求补全
+  const skipNextRef = useRef(false);
+  const { containerRef, menuRef, menuPosition, mounted } = useFloatingMenu<HTMLInputElement>(isOpen, () => setIsOpen(false));
+
+  // 父组件每次渲染都会创建新的 reference，按其内容触发请求
+  const referenceType = reference.type;
+  const referenceKey = reference.type === 'ref/prompt' ? reference.name : reference.uri;
+  const contextKey = JSON.stringify(contextArguments ?? {});
+
+  useEffect(() => {
+    if (!enabled || !isFocused) return;
+    if (skipNextRef.current) {
+      skipNextRef.current = false;
+      return;
+    }
+
+    const ref: MCPCompletionReference = referenceType === 'ref/prompt'
+      ? { type: 'ref/prompt', name: referenceKey }
+      : { type: 'ref/resource', uri: referenceKey };
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/mcp/completions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            serverId,
+            ref,
+            argument: { name: argumentName, value },
+            context: { arguments: JSON.parse(contextKey) },
+          }),
+          signal: controller.signal,
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || `Completion failed: ${response.status}`);
+        }
+        const values = (data.values || []) as string[];
+        setCompletion({ values, total: data.total, hasMore: data.hasMore });
+        setActiveIndex(0);
+        setIsOpen(values.length > 0 && !(values.length === 1 && values[0] === value));
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.warn(`[MCP] Completion failed for ${argumentName}:`, err);
+          setIsOpen(false);
+        }
+      }
+    }, COMPLETION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [enabled, isFocused, serverId, referenceType, referenceKey, argumentName, value, contextKey]);
+
+  const select = (option: string) => {
+    skipNextRef.current = option !== value;
+    onChange(option);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const options = completion.values;
+    if (isOpen && options.length > 0) {
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          setActiveIndex(prev => (prev + 1) % options.length);
+          return;
+        case 'ArrowUp':
+          event.preventDefault();
+          setActiveIndex(prev => (prev - 1 + options.length) % options.length);
+          return;
+        case 'Enter':
+        case 'Tab':
+          event.preventDefault();
+          select(options[Math.min(activeIndex, options.length - 1)]);
+          return;
+        case 'Escape':
+          event.preventDefault();
+          event.stopPropagation();
+          setIsOpen(false);
+          return;
+      }
+    }
+    onKeyDown?.(event);
+  };
+
+  const remaining = (completion.total ?? 0) - completion.values.length;
+
+  const dropdownMenu = isOpen && mounted && (
+    <div
+      ref={menuRef}
+      style={{
+        position: 'fixed',
+        top: menuPosition.top,
+        left: menuPosition.left,
+        minWidth: menuPosition.width,
+        zIndex: 99999,
+      }}
+      className="max-h-[240px] overflow-y-auto bg-white rounded-xl shadow-2xl shadow-slate-200/60 border border-indigo-100 py-1"
+    >
+      {completion.values.map((option, index) => (
+        <div
+          key={option}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            select(option);
+          }}
+          onMouseEnter={() => setActiveIndex(index)}
+          className={`px-3 py-1.5 text-sm cursor-pointer select-none truncate transition-colors ${
+            index === activeIndex ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700'
+          }`}
+        >
+          {option}
+        </div>
+      ))}
+      {(completion.hasMore || remaining > 0) && (
+        <div className="px-3 py-1 text-[11px] text-slate-400">
+          {remaining > 0 ? `还有 ${remaining} 项，继续输入以缩小范围` : '继续输入以缩小范围'}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      <input
+        {...inputProps}
+        ref={containerRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={(e) => {
+          setIsFocused(true);
+          onFocus?.(e);
+        }}
+        onBlur={(e) => {
+          setIsFocused(false);
+          setIsOpen(false);
+          onBlur?.(e);
+        }}
+        autoComplete="off"
+      />
+      {mounted && createPortal(dropdownMenu, document.body)}
+    </>
+  );
+};
+
+export default MCPCompletionInput;
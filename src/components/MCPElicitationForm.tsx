@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, MessageSquareText } from 'lucide-react';
+import CustomSelect from './CustomSelect';
+import { MCPElicitationProperty, MCPElicitationSchema, MCPElicitResult } from '@/lib/mcp/types';
+import { validateElicitationContent } from '@/lib/mcp/elicitation';
+import { submitMCPInteraction } from '@/lib/mcp/interaction-client';
+
+export interface MCPElicitationRequest {
+  elicitationId: string;
+  serverId: string;
+  message: string;
+  requestedSchema: MCPElicitationSchema;
+}
+
+interface MCPElicitationFormProps {
+  request: MCPElicitationRequest;
+  onDecided?: () => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-indigo-300';
+
+// 字符串格式对应的输入框类型
+const INPUT_TYPES: Record<string, string> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+type FieldValue = string | boolean;
+
+function initialValue(property: MCPElicitationProperty): FieldValue {
+  if (property.type === 'boolean') {
+    return typeof property.default === 'boolean' ? property.default : false;
+  }
+  return property.default !== undefined ? String(property.default) : '';
+}
+
+/**
+ * 把表单值转换为响应内容：数字字段转为数字，留空的字段省略
+ */
+function toContent(schema: MCPElicitationSchema, values: Record<string, FieldValue>): NonNullable<MCPElicitResult['content']> {
+  const content: NonNullable<MCPElicitResult['content']> = {};
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const value = values[name];
+    if (typeof value === 'boolean') {
+      content[name] = value;
+    } else if (value.trim()) {
+      if (property.type === 'number' || property.type === 'integer') {
+        content[name] = Number(value);
+      } else if (property.format === 'date-time') {
+        // datetime-local 不含时区，按本地时间转换为 ISO 8601
+        content[name] = new Date(value).toISOString();
+      } else {
+        content[name] = value;
+      }
+    }
+  }
+  return content;
+}
+
+// 征询表单：按服务器请求的 Schema 生成，提交 accept / decline / cancel
+const MCPElicitationForm: React.FC<MCPElicitationFormProps> = ({ request, onDecided }) => {
+  const { requestedSchema: schema } = request;
+  const required = new Set(schema.required ?? []);
+
+  const [values, setValues] = useState<Record<string, FieldValue>>(() => Object.fromEntries(
+    Object.entries(schema.properties).map(([name, property]) => [name, initialValue(property)])
+  ));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const setValue = (name: string, value: FieldValue) => setValues(prev => ({ ...prev, [name]: value }));
+
+  const submit = async (action: MCPElicitResult['action']) => {
+    const result: MCPElicitResult = { action };
+    if (action === 'accept') {
+      result.content = toContent(schema, values);
+      const validationErrors = validateElicitationContent(schema, result.content);
+      if (validationErrors.length > 0) {
+        setErrors(validationErrors);
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    setErrors([]);
+    try {
+      await submitMCPInteraction(request.elicitationId, result);
+      onDecided?.();
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : '提交失败']);
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderField = (name: string, property: MCPElicitationProperty) => {
+    const value = values[name];
+    if (property.type === 'boolean') {
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => setValue(name, e.target.checked)}
+          className="w-3.5 h-3.5 accent-indigo-500"
+        />
+      );
+    }
+    if (property.enum) {
+      return (
+        <CustomSelect
+          value={value as string}
+          onChange={(option) => setValue(name, option)}
+          options={property.enum.map((option, index) => ({ value: option, label: property.enumNames?.[index] ?? option }))}
+          className="text-xs"
+        />
+      );
+    }
+    const isNumber = property.type === 'number' || property.type === 'integer';
+    return (
+      <input
+        type={isNumber ? 'number' : INPUT_TYPES[property.format ?? ''] ?? 'text'}
+        step={property.type === 'integer' ? 1 : undefined}
+        min={property.minimum}
+        max={property.maximum}
+        value={value as string}
+        onChange={(e) => setValue(name, e.target.value)}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return (
+    <div className="px-3 py-2 rounded-lg text-sm bg-sky-50 border border-sky-200 space-y-2">
+      <div className="flex items-start gap-2">
+        <MessageSquareText className="h-4 w-4 mt-0.5 text-sky-500 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="text-slate-700 whitespace-pre-wrap break-words">{request.message}</div>
+          <div className="text-xs text-slate-500 truncate">{request.serverId} 请求补充信息</div>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        {Object.entries(schema.properties).map(([name, property]) => (
+          <label key={name} className={`block text-xs ${property.type === 'boolean' ? 'flex items-center gap-1.5 flex-row-reverse justify-end' : ''}`}>
+            <span className="font-medium text-slate-600">
+              {property.title || name}
+              {required.has(name) && <span className="text-red-500"> *</span>}
+            </span>
+            {property.description && property.type !== 'boolean' && (
+              <span className="block text-[11px] text-slate-400">{property.description}</span>
+            )}
+            <div className={property.type === 'boolean' ? '' : 'mt-0.5'}>{renderField(name, property)}</div>
+          </label>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-xs text-red-500 space-y-0.5">
+          {errors.map(error => <p key={error} className="break-words">{error}</p>)}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => submit('cancel')}
+          disabled={isSubmitting}
+          className="px-2.5 py-1 text-xs text-slate-500 rounded-md hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          取消
+        </button>
+        <button
+          onClick={() => submit('decline')}
+          disabled={isSubmitting}
+          className={`px-2.5 py-1 text-xs font-medium text-slate-600 rounded-md
+            bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          拒绝
+        </button>
+        <button
+          onClick={() => submit('accept')}
+          disabled={isSubmitting}
+          className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white rounded-md
+            bg-gradient-to-r from-indigo-500 to-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {isSubmitting && <Loader2 className="w-3 h-3 animate-spin" />}
+          提交
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MCPElicitationForm;
@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Trash2 } from 'lucide-react';
+import CustomSelect from './CustomSelect';
+import { MCPLogEntry, MCPLoggingLevel } from '@/lib/mcp/types';
+import { MCP_LOGGING_LEVELS, formatMCPLogData } from '@/lib/mcp/logs';
+
+interface MCPLogPanelProps {
+  serverId: string;
+}
+
+// 拉取新日志的间隔
+const POLL_INTERVAL_MS = 2000;
+
+// 面板中保留的日志条数（与服务器端缓冲区一致）
+const MAX_VISIBLE_ENTRIES = 500;
+
+const LEVEL_STYLES: Record<MCPLoggingLevel, string> = {
+  debug: 'text-slate-400',
+  info: 'text-sky-600',
+  notice: 'text-indigo-600',
+  warning: 'text-amber-600',
+  error: 'text-red-500',
+  critical: 'text-red-600',
+  alert: 'text-red-700',
+  emergency: 'text-red-800',
+};
+
+// MCP 服务器日志：展示服务器发送的日志，可设置服务器发送日志的最低级别
+const MCPLogPanel: React.FC<MCPLogPanelProps> = ({ serverId }) => {
+  const [entries, setEntries] = useState<MCPLogEntry[]>([]);
+  const [level, setLevel] = useState<MCPLoggingLevel | ''>('');
+  const [error, setError] = useState<string | null>(null);
+  const lastSeqRef = useRef(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 增量拉取新日志
+  useEffect(() => {
+    let cancelled = false;
+    lastSeqRef.current = 0;
+    setEntries([]);
+
+    const poll = async () => {
+      try {
+        const params = new URLSearchParams({ serverId, after: String(lastSeqRef.current) });
+        const response = await fetch(`/api/mcp/logs?${params}`);
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to load logs: ${response.status}`);
+        }
+        if (cancelled) return;
+
+        const fresh = (data.entries || []) as MCPLogEntry[];
+        if (fresh.length > 0) {
+          lastSeqRef.current = fresh[fresh.length - 1].seq;
+          setEntries(prev => [...prev, ...fresh].slice(-MAX_VISIBLE_ENTRIES));
+        }
+        if (data.level) setLevel(data.level);
+      } catch (err) {
+        if (!cancelled) {
+          console.warn(`[MCP] Failed to load logs for ${serverId}:`, err);
+        }
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [serverId]);
+
+  // 新日志到达时滚动到底部
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [entries]);
+
+  const postLogAction = async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/mcp/logs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ serverId, ...body }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Log request failed: ${response.status}`);
+    }
+  };
+
+  const handleLevelChange = async (value: string) => {
+    setError(null);
+    try {
+      await postLogAction({ action: 'setLevel', level: value });
+      setLevel(value as MCPLoggingLevel);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '设置日志级别失败');
+    }
+  };
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await postLogAction({ action: 'clear' });
+      setEntries([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '清空日志失败');
+    }
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-200/60 space-y-1.5" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Logs</span>
+        <div className="flex items-center gap-1">
+          <CustomSelect
+            value={level}
+            onChange={handleLevelChange}
+            options={MCP_LOGGING_LEVELS.map(value => ({ value, label: value }))}
+            placeholder="服务器默认"
+            className="text-[11px] w-28"
+          />
+          <button
+            onClick={handleClear}
+            className="p-0.5 rounded text-slate-400 hover:text-red-500 transition-colors"
+            title="清空日志"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-[11px] text-red-500 break-words">{error}</p>
+      )}
+
+      <div ref={listRef} className="max-h-56 overflow-y-auto rounded-lg bg-slate-900/[0.03] ring-1 ring-slate-200/70 px-2 py-1 font-mono text-[10px] leading-relaxed">
+        {entries.length === 0 ? (
+          <p className="text-slate-400 font-sans text-[11px]">暂无日志</p>
+        ) : entries.map(entry => (
+          <div key={entry.seq} className="break-words">
+            <span className="text-slate-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>{' '}
+            <span className={`font-semibold ${LEVEL_STYLES[entry.level]}`}>{entry.level}</span>
+            {entry.logger && <span className="text-slate-500"> [{entry.logger}]</span>}{' '}
+            <span className="text-slate-700 whitespace-pre-wrap">{formatMCPLogData(entry.data)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MCPLogPanel;
@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { Loader2, MessageSquareText, X } from 'lucide-react';
+import { useSidebar } from './SidebarContext';
+import MCPCompletionInput from './MCPCompletionInput';
+import { ChatMessage } from '@/lib/types';
+import { MCPPrompt, MCPPromptMessage } from '@/lib/mcp/types';
+import { mcpContentToText } from '@/lib/mcp/content';
+
+// 带服务器信息的提示词
+interface ServerPrompt {
+  serverId: string;
+  serverName: string;
+  prompt: MCPPrompt;
+}
+
+export interface MCPPromptPickerHandle {
+  // 菜单打开时处理键盘导航，返回 true 表示事件已被消费
+  handleKeyDown: (event: React.KeyboardEvent<HTMLTextAreaElement>) => boolean;
+}
+
+interface MCPPromptPickerProps {
+  // 输入框中 "/" 之后的文本；为 null 表示未处于斜杠命令模式
+  query: string | null;
+  // 插入渲染后的消息；draft 为最后一条用户消息，放入输入框供用户确认后发送
+  onInsert: (messages: ChatMessage[], draft: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * 将提示词消息转换为聊天消息
+ */
+function promptMessageToChatMessage(message: MCPPromptMessage): ChatMessage {
+  const text = mcpContentToText(message.content);
+  return {
+    role: message.role,
+    content: text || `[${message.content.type}]`,
+  };
+}
+
+// MCP 提示词斜杠命令：选择服务器提示词、填写参数并插入对话
+const MCPPromptPicker = forwardRef<MCPPromptPickerHandle, MCPPromptPickerProps>(({ query, onInsert, onClose }, ref) => {
+  const { mcpServers, enabledServerIds } = useSidebar();
+
+  const [prompts, setPrompts] = useState<ServerPrompt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [selected, setSelected] = useState<ServerPrompt | null>(null);
+  const [argValues, setArgValues] = useState<Record<string, string>>({});
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSlashMode = query !== null;
+  const isMenuOpen = isSlashMode && !selected;
+
+  // 已启用、已连接且支持提示词的服务器
+  const connectedServers = useMemo(
+    () => mcpServers.filter(s => s.isConnected && enabledServerIds.has(s.config.id) && s.session?.capabilities.prompts),
+    [mcpServers, enabledServerIds]
+  );
+
+  // 进入斜杠命令模式或已连接的服务器变化时，加载所有已连接服务器的提示词
+  useEffect(() => {
+    if (!isSlashMode) return;
+
+    let cancelled = false;
+    const loadPrompts = async () => {
+      setIsLoading(true);
+      const results = await Promise.all(connectedServers.map(async server => {
+        try {
+          const response = await fetch('/api/mcp/prompts', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ serverId: server.config.id, action: 'list' }),
+          });
+          if (!response.ok) return [];
+          const data = await response.json();
+          return (data.prompts as MCPPrompt[] || []).map(prompt => ({
+            serverId: server.config.id,
+            serverName: server.config.name,
+            prompt,
+          }));
+        } catch (err) {
+          console.warn(`[MCP] Failed to load prompts for ${server.config.id}:`, err);
+          return [];
+        }
+      }));
+      if (!cancelled) {
+        setPrompts(results.flat());
+        setIsLoading(false);
+      }
+    };
+
+    loadPrompts();
+    return () => {
+      cancelled = true;
+    };
+  }, [isSlashMode, connectedServers]);
+
+  const filteredPrompts = useMemo(() => {
+    const keyword = (query ?? '').toLowerCase();
+    return prompts.filter(({ prompt }) =>
+      prompt.name.toLowerCase().includes(keyword) ||
+      (prompt.title ?? '').toLowerCase().includes(keyword)
+    );
+  }, [prompts, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  const renderPrompt = async (target: ServerPrompt, values: Record<string, string>) => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/mcp/prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          serverId: target.serverId,
+          action: 'get',
+          name: target.prompt.name,
+          arguments: values,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to get prompt: ${response.status}`);
+      }
+
+      const messages = (data.messages as MCPPromptMessage[] || []).map(promptMessageToChatMessage);
+      const last = messages[messages.length - 1];
+      const draft = last?.role === 'user' ? last.content : '';
+      onInsert(draft ? messages.slice(0, -1) : messages, draft);
+
+      setSelected(null);
+      setArgValues({});
+    } catch (err) {
+      console.error('[MCP] Failed to render prompt:', err);
+      setError(err instanceof Error ? err.message : '获取提示词失败');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const selectPrompt = (target: ServerPrompt) => {
+    setError(null);
+    // 无参数的提示词直接渲染
+    if (!target.prompt.arguments || target.prompt.arguments.length === 0) {
+      renderPrompt(target, {});
+      return;
+    }
+    setSelected(target);
+    setArgValues({});
+  };
+
+  const closeForm = () => {
+    setSelected(null);
+    setArgValues({});
+    setError(null);
+    onClose();
+  };
+
+  useImperativeHandle(ref, () => ({
+    handleKeyDown: (event) => {
+      if (!isMenuOpen || filteredPrompts.length === 0) {
+        if (isMenuOpen && event.key === 'Escape') {
+          event.preventDefault();
+          onClose();
+          return true;
+        }
+        return false;
+      }
+
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          setActiveIndex(prev => (prev + 1) % filteredPrompts.length);
+          return true;
+        case 'ArrowUp':
+          event.preventDefault();
+          setActiveIndex(prev => (prev - 1 + filteredPrompts.length) % filteredPrompts.length);
+          return true;
+        case 'Enter':
+        case 'Tab':
+          event.preventDefault();
+          selectPrompt(filteredPrompts[Math.min(activeIndex, filteredPrompts.length - 1)]);
+          return true;
+        case 'Escape':
+          event.preventDefault();
+          onClose();
+          return true;
+        default:
+          return false;
+      }
+    },
+  }));
+
+  if (!isMenuOpen && !selected) {
+    return null;
+  }
+
+  // 服务器支持补全时参数输入框提供候选值
+  const supportsCompletion = !!mcpServers.find(s => s.config.id === selected?.serverId)?.session?.capabilities.completions;
+
+  const missingRequired = selected?.prompt.arguments?.some(
+    arg => arg.required && !(argValues[arg.name] ?? '').trim()
+  ) ?? false;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 bg-white rounded-xl shadow-2xl shadow-slate-200/60 border border-indigo-100 overflow-hidden">
+      {selected ? (
+        /* 参数表单（位于聊天输入表单内，不能再嵌套 form） */
+        <div className="p-3 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <div className="text-sm font-semibold text-slate-800 truncate">/{selected.prompt.title || selected.prompt.name}</div>
+              {selected.prompt.description && (
+                <div className="text-xs text-slate-500 line-clamp-2">{selected.prompt.description}</div>
+              )}
+            </div>
+            <button type="button" onClick={closeForm} className="p-1 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {selected.prompt.arguments?.map((arg, index) => (
+            <label key={arg.name} className="block">
+              <span className="text-xs font-medium text-slate-600">
+                {arg.title || arg.name}
+                {arg.required && <span className="text-red-500 ml-0.5">*</span>}
+              </span>
+              <MCPCompletionInput
+                serverId={selected.serverId}
+                reference={{ type: 'ref/prompt', name: selected.prompt.name }}
+                argumentName={arg.name}
+                contextArguments={argValues}
+                enabled={supportsCompletion}
+                autoFocus={index === 0}
+                value={argValues[arg.name] ?? ''}
+                onChange={(value) => setArgValues(prev => ({ ...prev, [arg.name]: value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    if (!missingRequired) renderPrompt(selected, argValues);
+                  } else if (e.key === 'Escape') {
+                    closeForm();
+                  }
+                }}
+                placeholder={arg.description}
+                className="mt-0.5 w-full px-2.5 py-1.5 text-sm rounded-lg border border-indigo-200/60 focus:outline-none focus:ring-2 focus:ring-indigo-400/50"
+              />
+            </label>
+          ))}
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => renderPrompt(selected, argValues)}
+              disabled={missingRequired || isRendering}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white rounded-lg
+                bg-gradient-to-r from-indigo-500 to-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              {isRendering && <Loader2 className="w-3 h-3 animate-spin" />}
+              插入对话
+            </button>
+          </div>
+        </div>
+      ) : (
+        /* 提示词菜单 */
+        <div className="max-h-[280px] overflow-y-auto py-1">
+          {isLoading && prompts.length === 0 ? (
+            <div className="flex items-center gap-2 px-4 py-2.5 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin text-indigo-500" />
+              加载提示词...
+            </div>
+          ) : filteredPrompts.length === 0 ? (
+            <div className="px-4 py-2.5 text-sm text-slate-400">
+              {connectedServers.length === 0 ? '没有提供提示词的 MCP 服务器' : '没有匹配的提示词'}
+            </div>
+          ) : (
+            filteredPrompts.map((item, index) => (
+              <div
+                key={`${item.serverId}-${item.prompt.name}`}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectPrompt(item);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-start gap-2 px-4 py-2 cursor-pointer select-none transition-colors ${
+                  index === activeIndex ? 'bg-indigo-50 text-indigo-700' : 'text-slate-700'
+                }`}
+              >
+                <MessageSquareText className="w-4 h-4 mt-0.5 flex-shrink-0 text-indigo-400" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">/{item.prompt.name}</span>
+                    <span className="text-[11px] text-slate-400 flex-shrink-0">{item.serverName}</span>
+                  </div>
+                  {item.prompt.description && (
+                    <div className="text-xs text-slate-500 truncate">{item.prompt.description}</div>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+          {error && <p className="px-4 py-1 text-xs text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+});
+
+MCPPromptPicker.displayName = 'MCPPromptPicker';
+
+export default MCPPromptPicker;
@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Loader2, Paperclip, Bell, BellOff, FileText, Braces, RefreshCw, Check } from 'lucide-react';
+import { useSidebar } from './SidebarContext';
+import MCPCompletionInput from './MCPCompletionInput';
+import { MCPResource, MCPResourceTemplate } from '@/lib/mcp/types';
+import { expandUriTemplate, getUriTemplateVariables } from '@/lib/mcp/uri-template';
+
+interface MCPResourceBrowserProps {
+  serverId: string;
+}
+
+// 资源模板条目：填写模板变量后展开为 URI 并附加
+const ResourceTemplateItem: React.FC<{
+  serverId: string;
+  template: MCPResourceTemplate;
+  // 服务器支持补全时模板变量输入框提供候选值
+  supportsCompletion: boolean;
+  onAttach: (uri: string, name: string) => Promise<void>;
+}> = ({ serverId, template, supportsCompletion, onAttach }) => {
+  // 模板表达式不合法时无法展开，只显示提示
+  let variables: string[] | null;
+  try {
+    variables = getUriTemplateVariables(template.uriTemplate);
+  } catch {
+    variables = null;
+  }
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isAttaching, setIsAttaching] = useState(false);
+
+  const isComplete = variables !== null && variables.every(name => (values[name] ?? '').trim() !== '');
+
+  const handleAttach = async () => {
+    if (!isComplete || isAttaching) return;
+    setIsAttaching(true);
+    try {
+      const uri = expandUriTemplate(template.uriTemplate, values);
+      await onAttach(uri, `${template.title || template.name} (${uri})`);
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg bg-white/70 ring-1 ring-slate-200/70 px-2 py-1.5">
+      <div className="flex items-center gap-1.5">
+        <Braces className="w-3 h-3 text-violet-500 flex-shrink-0" />
+        <span className="text-[11px] font-medium text-slate-700 truncate" title={template.description || template.uriTemplate}>
+          {template.title || template.name}
+        </span>
+      </div>
+      {variables === null && (
+        <div className="mt-1 text-[11px] text-red-500 break-all">无效的 URI 模板：{template.uriTemplate}</div>
+      )}
+      <div className="mt-1 space-y-1">
+        {variables?.map(name => (
+          <MCPCompletionInput
+            key={name}
+            serverId={serverId}
+            reference={{ type: 'ref/resource', uri: template.uriTemplate }}
+            argumentName={name}
+            contextArguments={values}
+            enabled={supportsCompletion}
+            value={values[name] ?? ''}
+            onChange={(value) => setValues(prev => ({ ...prev, [name]: value }))}
+            onKeyDown={(e) => e.key === 'Enter' && handleAttach()}
+            placeholder={name}
+            className="w-full px-2 py-1 text-[11px] rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-indigo-300"
+          />
+        ))}
+      </div>
+      <button
+        onClick={handleAttach}
+        disabled={!isComplete || isAttaching}
+        className="mt-1 flex items-center gap-1 text-[11px] font-medium text-indigo-500 hover:text-indigo-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+      >
+        {isAttaching ? <Loader2 className="w-3 h-3 animate-spin" /> : <Paperclip className="w-3 h-3" />}
+        附加
+      </button>
+    </div>
+  );
+};
+
+// MCP 资源浏览器：列出服务器资源和资源模板，支持附加到对话与订阅更新
+const MCPResourceBrowser: React.FC<MCPResourceBrowserProps> = ({ serverId }) => {
+  const {
+    mcpServers,
+    attachedResources,
+    attachMCPResource,
+    detachMCPResource,
+    toggleMCPResourceSubscription,
+  } = useSidebar();
+
+  const [resources, setResources] = useState<MCPResource[]>([]);
+  const [templates, setTemplates] = useState<MCPResourceTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingUri, setPendingUri] = useState<string | null>(null);
+
+  // 服务器声明了 resources.subscribe 能力时才提供订阅
+  const session = mcpServers.find(s => s.config.id === serverId)?.session;
+  const canSubscribe = !!session?.capabilities.resources?.subscribe;
+  const supportsCompletion = !!session?.capabilities.completions;
+
+  const loadResources = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/mcp/resources', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serverId, action: 'list' }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to load resources: ${response.status}`);
+      }
+      setResources(data.resources || []);
+      setTemplates(data.resourceTemplates || []);
+    } catch (err) {
+      console.error(`[MCP] Failed to load resources for ${serverId}:`, err);
+      setError(err instanceof Error ? err.message : '加载资源失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [serverId]);
+
+  useEffect(() => {
+    loadResources();
+  }, [loadResources]);
+
+  const handleAttach = async (uri: string, name: string) => {
+    setPendingUri(uri);
+    setError(null);
+    try {
+      await attachMCPResource(serverId, uri, name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '附加资源失败');
+    } finally {
+      setPendingUri(null);
+    }
+  };
+
+  const handleToggleSubscription = async (uri: string) => {
+    setError(null);
+    try {
+      await toggleMCPResourceSubscription(serverId, uri);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '订阅失败');
+    }
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-200/60 space-y-1.5" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-wider">Resources</span>
+        <button
+          onClick={loadResources}
+          disabled={isLoading}
+          className="p-0.5 rounded text-slate-400 hover:text-indigo-500 transition-colors"
+          title="刷新资源列表"
+        >
+          <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-[11px] text-red-500 break-words">{error}</p>
+      )}
+
+      {!isLoading && !error && resources.length === 0 && templates.length === 0 && (
+        <p className="text-[11px] text-slate-400">暂无资源</p>
+      )}
+
+      <div className="max-h-56 overflow-y-auto space-y-1 pr-0.5">
+        {resources.map(resource => {
+          const attached = attachedResources.find(r => r.serverId === serverId && r.uri === resource.uri);
+          const isPending = pendingUri === resource.uri;
+
+          return (
+            <div
+              key={resource.uri}
+              className={`flex items-center gap-1.5 rounded-lg px-2 py-1 ${
+                attached ? 'bg-indigo-50/80 ring-1 ring-indigo-200/70' : 'bg-white/70 ring-1 ring-slate-200/70'
+              }`}
+            >
+              <FileText className="w-3 h-3 text-slate-400 flex-shrink-0" />
+              <span className="flex-1 min-w-0 text-[11px] text-slate-700 truncate" title={resource.description || resource.uri}>
+                {resource.title || resource.name}
+              </span>
+
+              {attached && canSubscribe && (
+                <button
+                  onClick={() => handleToggleSubscription(resource.uri)}
+                  className={`p-0.5 rounded transition-colors ${attached.subscribed ? 'text-amber-500' : 'text-slate-400 hover:text-amber-500'}`}
+                  title={attached.subscribed ? '取消订阅更新' : '订阅更新'}
+                >
+                  {attached.subscribed ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />}
+                </button>
+              )}
+
+              <button
+                onClick={() => attached
+                  ? detachMCPResource(serverId, resource.uri)
+                  : handleAttach(resource.uri, resource.title || resource.name)}
+                disabled={isPending}
+                className={`p-0.5 rounded transition-colors ${attached ? 'text-indigo-500 hover:text-red-500' : 'text-slate-400 hover:text-indigo-500'}`}
+                title={attached ? '移除附加' : '附加到对话'}
+              >
+                {isPending
+                  ? <Loader2 className="w-3 h-3 animate-spin" />
+                  : attached ? <Check className="w-3 h-3" /> : <Paperclip className="w-3 h-3" />}
+              </button>
+            </div>
+          );
+        })}
+
+        {templates.map(template => (
+          <ResourceTemplateItem
+            key={template.uriTemplate}
+            serverId={serverId}
+            template={template}
+            supportsCompletion={supportsCompletion}
+            onAttach={handleAttach}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MCPResourceBrowser;
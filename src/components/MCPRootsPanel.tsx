@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FolderRoot, Loader2, Plus, X } from 'lucide-react';
+import { useSidebar } from './SidebarContext';
+
+// 工作区目录：当前对话允许 MCP 服务器访问的根目录
+const MCPRootsPanel: React.FC = () => {
+  const { mcpRoots, saveMCPRoots } = useSidebar();
+
+  const [location, setLocation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (roots: typeof mcpRoots) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveMCPRoots(roots);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const uri = location.trim();
+    if (!uri || isSaving) return;
+    if (await save([...mcpRoots, { uri }])) {
+      setLocation('');
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center gap-1.5 mb-2 px-1">
+        <FolderRoot className="w-3.5 h-3.5 text-slate-400" />
+        <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">工作区目录</span>
+      </div>
+
+      <div className="rounded-xl bg-slate-50/80 ring-1 ring-slate-200/70 p-2 space-y-1.5">
+        {mcpRoots.length === 0 && (
+          <p className="text-[11px] text-slate-400 px-1">未设置，文件类服务器将无法获知可访问的目录</p>
+        )}
+
+        {mcpRoots.map(root => (
+          <div key={root.uri} className="flex items-center gap-1.5 rounded-lg bg-white/70 ring-1 ring-slate-200/70 px-2 py-1">
+            <div className="flex-1 min-w-0">
+              <div className="text-[11px] font-medium text-slate-700 truncate">{root.name}</div>
+              <div className="text-[10px] text-slate-400 truncate" title={root.uri}>{root.uri}</div>
+            </div>
+            <button
+              onClick={() => save(mcpRoots.filter(r => r.uri !== root.uri))}
+              disabled={isSaving}
+              className="p-0.5 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50 disabled:opacity-40 transition-colors"
+              title="移除"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-1">
+          <input
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="/绝对路径 或 file:// URI"
+            className="flex-1 min-w-0 px-2 py-1 text-[11px] rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-indigo-300"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!location.trim() || isSaving}
+            className="p-1 rounded-md text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            title="添加目录"
+          >
+            {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Plus className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+
+        {error && <p className="text-[11px] text-red-500 break-words px-1">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default MCPRootsPanel;
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import { MCPSamplingDecision, MCPSamplingMessage } from '@/lib/mcp/types';
+import { submitMCPInteraction } from '@/lib/mcp/interaction-client';
+import MCPToolMedia from './MCPToolMedia';
+
+export interface MCPSamplingRequest {
+  approvalId: string;
+  serverId: string;
+  model: string;
+  systemPrompt?: string;
+  messages: MCPSamplingMessage[];
+  maxTokens: number;
+}
+
+interface MCPSamplingApprovalCardProps {
+  request: MCPSamplingRequest;
+  onDecided?: () => void;
+}
+
+// 采样确认：预览服务器要发送给模型的内容，批准后才调用模型
+const MCPSamplingApprovalCard: React.FC<MCPSamplingApprovalCardProps> = ({ request, onDecided }) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (action: MCPSamplingDecision['action']) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await submitMCPInteraction(request.approvalId, { action } satisfies MCPSamplingDecision);
+      onDecided?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '提交失败');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="px-3 py-2 rounded-lg text-sm bg-violet-50 border border-violet-200 space-y-2">
+      <div className="flex items-center gap-2">
+        <Sparkles className="h-4 w-4 text-violet-500 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-slate-700 truncate">{request.serverId} 请求调用模型</div>
+          <div className="text-xs text-slate-500 truncate">
+            {request.model} • 最多 {request.maxTokens} tokens
+          </div>
+        </div>
+      </div>
+
+      <div className="max-h-[240px] overflow-y-auto space-y-1.5 rounded-md border border-violet-100 bg-white p-2 text-xs">
+        {request.systemPrompt && (
+          <div>
+            <div className="font-medium text-slate-500">system</div>
+            <div className="whitespace-pre-wrap break-words text-slate-700">{request.systemPrompt}</div>
+          </div>
+        )}
+        {request.messages.map((message, index) => (
+          <div key={index}>
+            <div className="font-medium text-slate-500">{message.role}</div>
+            {message.content.type === 'text' ? (
+              <div className="whitespace-pre-wrap break-words text-slate-700">{message.content.text}</div>
+            ) : (
+              <MCPToolMedia media={[message.content]} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-500 break-words">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => submit('deny')}
+          disabled={isSubmitting}
+          className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-slate-600 rounded-md
+            bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          <X className="w-3 h-3" />
+          拒绝
+        </button>
+        <button
+          onClick={() => submit('approve')}
+          disabled={isSubmitting}
+          className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white rounded-md
+            bg-gradient-to-r from-indigo-500 to-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {isSubmitting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+          批准
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MCPSamplingApprovalCard;
@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import { useSidebar } from './SidebarContext';
+import CustomSelect from './CustomSelect';
+import { MCPServerConfig, MCPTransportType } from '@/lib/mcp/types';
+
+type AuthType = NonNullable<MCPServerConfig['auth']>['type'];
+
+interface MCPServerFormProps {
+  // 编辑的服务器；未传入时为新增
+  server?: MCPServerConfig;
+  onClose: () => void;
+}
+
+const TRANSPORT_OPTIONS = [
+  { value: 'http', label: 'Streamable HTTP' },
+  { value: 'sse', label: 'HTTP + SSE（旧版）' },
+];
+
+const AUTH_OPTIONS = [
+  { value: 'none', label: '无认证' },
+  { value: 'bearer', label: 'Bearer Token' },
+  { value: 'api-key', label: 'API Key' },
+  { value: 'oauth', label: 'OAuth' },
+];
+
+const inputClassName = 'w-full px-2 py-1 text-[11px] rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-indigo-300';
+
+// 添加 / 编辑用户 MCP 服务器：保存前先测试连接
+const MCPServerForm: React.FC<MCPServerFormProps> = ({ server, onClose }) => {
+  const { saveMCPServer } = useSidebar();
+
+  const [name, setName] = useState(server?.name ?? '');
+  const [endpoint, setEndpoint] = useState(server?.endpoint ?? '');
+  const [transport, setTransport] = useState<MCPTransportType>(server?.transport ?? 'http');
+  const [authType, setAuthType] = useState<AuthType>(server?.auth?.type ?? 'none');
+  const [token, setToken] = useState('');
+  const [headerName, setHeaderName] = useState(server?.auth?.headerName ?? '');
+  const [clientId, setClientId] = useState(server?.auth?.clientId ?? '');
+  const [clientSecret, setClientSecret] = useState('');
+  const [headers, setHeaders] = useState<{ name: string; value: string }[]>(
+    Object.keys(server?.headers ?? {}).map(headerKey => ({ name: headerKey, value: '' }))
+  );
+  const [status, setStatus] = useState<'idle' | 'testing' | 'saving'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  // 编辑时已保存的敏感字段以空字符串返回，留空表示保持不变
+  const hasStoredToken = server?.auth?.type === authType && server.auth.token !== undefined;
+  const hasStoredSecret = server?.auth?.type === authType && server.auth.clientSecret !== undefined;
+  const storedHeaders = new Set(Object.keys(server?.headers ?? {}));
+
+  const buildConfig = (): Partial<MCPServerConfig> => ({
+    id: server?.id,
+    name,
+    description: server?.description,
+    icon: server?.icon,
+    endpoint: endpoint.trim(),
+    transport,
+    auth: {
+      type: authType,
+      ...(authType === 'bearer' || authType === 'api-key' ? { token } : {}),
+      ...(authType === 'api-key' && headerName.trim() ? { headerName: headerName.trim() } : {}),
+      ...(authType === 'oauth' && clientId.trim() ? { clientId: clientId.trim(), clientSecret } : {}),
+    },
+    headers: Object.fromEntries(
+      headers.filter(header => header.name.trim()).map(header => [header.name.trim(), header.value])
+    ),
+  });
+
+  const handleSubmit = async () => {
+    const config = buildConfig();
+    setError(null);
+    setStatus('testing');
+
+    try {
+      // 先用表单配置测试连接；需要 OAuth 授权的服务器允许先保存
+      const response = await fetch('/api/mcp/connect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        if (!data.authorizationRequired) {
+          throw new Error(data.error || `连接失败: ${response.status}`);
+        }
+      }
+
+      setStatus('saving');
+      await saveMCPServer(config);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+      setStatus('idle');
+    }
+  };
+
+  const isBusy = status !== 'idle';
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      className="rounded-xl bg-white/80 ring-1 ring-indigo-200/80 px-3 py-2.5 space-y-1.5"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-slate-700">{server ? '编辑服务器' : '添加服务器'}</span>
+        <button onClick={onClose} className="p-0.5 rounded text-slate-400 hover:text-slate-600">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="名称" className={inputClassName} />
+      <input value={endpoint} onChange={(e) => setEndpoint(e.target.value)} placeholder="https://example.com/mcp" className={inputClassName} />
+
+      <CustomSelect
+        value={transport}
+        onChange={(value) => setTransport(value as MCPTransportType)}
+        options={TRANSPORT_OPTIONS}
+        className="text-[11px]"
+      />
+      <CustomSelect
+        value={authType}
+        onChange={(value) => setAuthType(value as AuthType)}
+        options={AUTH_OPTIONS}
+        className="text-[11px]"
+      />
+
+      {(authType === 'bearer' || authType === 'api-key') && (
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder={hasStoredToken ? '已设置，留空保持不变' : 'Token'}
+          className={inputClassName}
+        />
+      )}
+      {authType === 'api-key' && (
+        <input value={headerName} onChange={(e) => setHeaderName(e.target.value)} placeholder="请求头名称（默认 X-API-Key）" className={inputClassName} />
+      )}
+      {authType === 'oauth' && (
+        <>
+          <input value={clientId} onChange={(e) => setClientId(e.target.value)} placeholder="Client ID（可选，默认动态注册）" className={inputClassName} />
+          {clientId.trim() && (
+            <input
+              type="password"
+              value={clientSecret}
+              onChange={(e) => setClientSecret(e.target.value)}
+              placeholder={hasStoredSecret ? '已设置，留空保持不变' : 'Client Secret（可选）'}
+              className={inputClassName}
+            />
+          )}
+        </>
+      )}
+
+      {/* 自定义请求头 */}
+      {headers.map((header, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <input
+            value={header.name}
+            onChange={(e) => setHeaders(prev => prev.map((h, i) => i === index ? { ...h, name: e.target.value } : h))}
+            placeholder="Header"
+            className={`${inputClassName} w-2/5`}
+          />
+          <input
+            type="password"
+            value={header.value}
+            onChange={(e) => setHeaders(prev => prev.map((h, i) => i === index ? { ...h, value: e.target.value } : h))}
+            placeholder={storedHeaders.has(header.name) ? '留空保持不变' : 'Value'}
+            className={inputClassName}
+          />
+          <button
+            onClick={() => setHeaders(prev => prev.filter((_, i) => i !== index))}
+            className="p-0.5 text-slate-400 hover:text-red-500 flex-shrink-0"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => setHeaders(prev => [...prev, { name: '', value: '' }])}
+        className="flex items-center gap-0.5 text-[11px] text-slate-400 hover:text-indigo-500 transition-colors"
+      >
+        <Plus className="w-3 h-3" />
+        请求头
+      </button>
+
+      {error && <p className="text-[11px] text-red-500 break-words">{error}</p>}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSubmit}
+          disabled={isBusy || !name.trim() || !endpoint.trim()}
+          className={`flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium text-white rounded-md
+            bg-gradient-to-r from-indigo-500 to-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {isBusy && <Loader2 className="w-3 h-3 animate-spin" />}
+          {status === 'testing' ? '测试连接...' : status === 'saving' ? '保存中...' : '测试并保存'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MCPServerForm;
@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Loader2, Upload, X } from 'lucide-react';
+import { useSidebar } from './SidebarContext';
+import { MCPServersImportSkipped } from '@/lib/mcp/config-format';
+
+interface MCPServerImportProps {
+  onClose: () => void;
+}
+
+const PLACEHOLDER = `{
+  "mcpServers": {
+    "example": {
+      "type": "http",
+      "url": "https://example.com/mcp"
+    }
+  }
+}`;
+
+// 导入 mcpServers JSON：粘贴文本或选择文件
+const MCPServerImport: React.FC<MCPServerImportProps> = ({ onClose }) => {
+  const { importMCPServers } = useSidebar();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [text, setText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ imported: number; skipped: MCPServersImportSkipped[] } | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setText(await file.text());
+    setResult(null);
+    setError(null);
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    setResult(null);
+    try {
+      setResult(await importMCPServers(text));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '导入失败');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      className="rounded-xl bg-white/80 ring-1 ring-indigo-200/80 px-3 py-2.5 space-y-1.5"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-slate-700">导入服务器</span>
+        <button onClick={onClose} className="p-0.5 rounded text-slate-400 hover:text-slate-600">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={PLACEHOLDER}
+        rows={6}
+        spellCheck={false}
+        className="w-full px-2 py-1 text-[11px] font-mono rounded-md border border-slate-200 bg-white resize-y focus:outline-none focus:ring-1 focus:ring-indigo-300"
+      />
+
+      {error && <p className="text-[11px] text-red-500 break-words">{error}</p>}
+      {result && (
+        <div className="text-[11px] text-slate-600 space-y-0.5">
+          <p className="text-emerald-600">已导入 {result.imported} 个服务器</p>
+          {result.skipped.map(item => (
+            <p key={item.name} className="text-amber-600 break-words">跳过 {item.name}：{item.reason}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-0.5 text-[11px] text-slate-400 hover:text-indigo-500 transition-colors"
+        >
+          <Upload className="w-3 h-3" />
+          选择文件
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+
+        <button
+          onClick={handleImport}
+          disabled={isImporting || !text.trim()}
+          className={`flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium text-white rounded-md
+            bg-gradient-to-r from-indigo-500 to-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {isImporting && <Loader2 className="w-3 h-3 animate-spin" />}
+          导入
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MCPServerImport;
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Braces, ChevronDown, ChevronRight, Table2 } from 'lucide-react';
+
+interface MCPStructuredResultProps {
+  data: Record<string, unknown>;
+}
+
+// 表格最多显示的行数与列数
+const MAX_ROWS = 50;
+const MAX_COLUMNS = 8;
+
+const cellClassName = 'px-2 py-1 border-b border-slate-100 align-top text-left';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isObjectArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value);
+    return json.length > 120 ? `${json.slice(0, 120)}…` : json;
+  }
+  return String(value);
+}
+
+// 对象数组显示为多列表格，对象显示为键值表格，其余显示为文本
+const DataTable: React.FC<{ value: unknown }> = ({ value }) => {
+  if (isObjectArray(value)) {
+    const columns = [...new Set(value.flatMap(row => Object.keys(row)))].slice(0, MAX_COLUMNS);
+    return (
+      <table className="w-full text-[11px]">
+        <thead>
+          <tr className="text-slate-500">
+            {columns.map(column => <th key={column} className={`${cellClassName} font-medium`}>{column}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {value.slice(0, MAX_ROWS).map((row, index) => (
+            <tr key={index} className="text-slate-700">
+              {columns.map(column => <td key={column} className={`${cellClassName} break-words`}>{formatCell(row[column])}</td>)}
+            </tr>
+          ))}
+        </tbody>
+        {value.length > MAX_ROWS && (
+          <caption className="caption-bottom pt-1 text-slate-400">仅显示前 {MAX_ROWS} 行，共 {value.length} 行</caption>
+        )}
+      </table>
+    );
+  }
+
+  if (isPlainObject(value)) {
+    return (
+      <table className="w-full text-[11px]">
+        <tbody>
+          {Object.entries(value).map(([key, item]) => (
+            <tr key={key}>
+              <th className={`${cellClassName} font-medium text-slate-500 whitespace-nowrap w-0`}>{key}</th>
+              <td className={`${cellClassName} text-slate-700 break-words`}>
+                {isObjectArray(item) || isPlainObject(item) ? <DataTable value={item} /> : formatCell(item)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  return <span className="text-[11px] text-slate-700">{formatCell(value)}</span>;
+};
+
+// 工具的结构化结果：可折叠，支持表格和 JSON 两种视图
+const MCPStructuredResult: React.FC<MCPStructuredResultProps> = ({ data }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [view, setView] = useState<'table' | 'json'>('table');
+
+  return (
+    <div className="mt-1.5">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="flex items-center gap-0.5 text-xs text-slate-500 hover:text-indigo-600 transition-colors"
+        >
+          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          结构化结果
+        </button>
+        {isExpanded && (
+          <div className="flex items-center gap-0.5 ml-auto">
+            <button
+              onClick={() => setView('table')}
+              className={`p-1 rounded ${view === 'table' ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+              title="表格"
+            >
+              <Table2 className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => setView('json')}
+              className={`p-1 rounded ${view === 'json' ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+              title="JSON"
+            >
+              <Braces className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="mt-1 max-h-[320px] overflow-auto rounded-md border border-slate-200 bg-white">
+          {view === 'table' ? (
+            <DataTable value={data} />
+          ) : (
+            <pre className="p-2 text-[11px] font-mono text-slate-700 whitespace-pre-wrap break-words">
+              {JSON.stringify(data, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MCPStructuredResult;
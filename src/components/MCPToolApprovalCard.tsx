@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, Loader2, ShieldQuestion, X } from 'lucide-react';
+import { MCPToolApprovalDecision, MCPToolApprovalPolicy } from '@/lib/mcp/types';
+import { submitMCPInteraction } from '@/lib/mcp/interaction-client';
+
+export interface MCPToolApprovalRequest {
+  approvalId: string;
+  serverId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  policy: MCPToolApprovalPolicy;
+}
+
+interface MCPToolApprovalCardProps {
+  request: MCPToolApprovalRequest;
+}
+
+// 工具调用确认：查看并修改参数后批准，或拒绝
+const MCPToolApprovalCard: React.FC<MCPToolApprovalCardProps> = ({ request }) => {
+  const [argsText, setArgsText] = useState(() => JSON.stringify(request.arguments, null, 2));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (action: MCPToolApprovalDecision['action']) => {
+    const decision: MCPToolApprovalDecision = { action };
+    if (action === 'approve') {
+      try {
+        const parsed = JSON.parse(argsText || '{}');
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          throw new Error();
+        }
+        decision.arguments = parsed;
+      } catch {
+        setError('参数必须是 JSON 对象');
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await submitMCPInteraction(request.approvalId, decision);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '提交失败');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="px-3 py-2 rounded-lg text-sm bg-amber-50 border border-amber-200 space-y-2">
+      <div className="flex items-center gap-2">
+        <ShieldQuestion className="h-4 w-4 text-amber-500 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-slate-700 truncate">{request.toolName}</div>
+          <div className="text-xs text-slate-500 truncate">
+            {request.serverId} • {request.policy === 'once' ? '本会话首次调用，需要确认' : '调用前需要确认'}
+          </div>
+        </div>
+      </div>
+
+      <textarea
+        value={argsText}
+        onChange={(e) => setArgsText(e.target.value)}
+        disabled={isSubmitting}
+        rows={Math.min(10, Math.max(3, argsText.split('\n').length))}
+        spellCheck={false}
+        className="w-full px-2 py-1 text-xs font-mono rounded-md border border-amber-200 bg-white resize-y focus:outline-none focus:ring-1 focus:ring-amber-300"
+      />
+
+      {error && <p className="text-xs text-red-500 break-words">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => submit('deny')}
+          disabled={isSubmitting}
+          className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-slate-600 rounded-md
+            bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          <X className="w-3 h-3" />
+          拒绝
+        </button>
+        <button
+          onClick={() => submit('approve')}
+          disabled={isSubmitting}
+          className={`flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white rounded-md
+            bg-gradient-to-r from-indigo-500 to-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {isSubmitting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+          批准
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MCPToolApprovalCard;
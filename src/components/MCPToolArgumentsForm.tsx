@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import CustomSelect from './CustomSelect';
+import { MCPTool, MCPToolProperty } from '@/lib/mcp/types';
+import { getEmptyToolArgument } from '@/lib/mcp/tool-arguments';
+
+interface MCPToolArgumentsFormProps {
+  schema: MCPTool['inputSchema'];
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+}
+
+const inputClassName = 'w-full px-2.5 py-1.5 text-sm rounded-lg border border-indigo-200/60 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-400/50';
+
+// 没有可用表单控件的值（无属性定义的对象、未知类型）以 JSON 编辑
+const JSONField: React.FC<{ value: unknown; onChange: (value: unknown) => void }> = ({ value, onChange }) => {
+  const [text, setText] = useState(() => value === undefined ? '' : JSON.stringify(value, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      onChange(JSON.parse(next));
+      setError(null);
+    } catch {
+      setError('不是有效的 JSON');
+    }
+  };
+
+  return (
+    <>
+      <textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        rows={Math.min(8, Math.max(2, text.split('\n').length))}
+        spellCheck={false}
+        className={`${inputClassName} font-mono text-xs resize-y`}
+      />
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </>
+  );
+};
+
+interface SchemaFieldProps {
+  property: MCPToolProperty;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  required?: boolean;
+}
+
+// 按属性类型生成输入控件
+const SchemaInput: React.FC<SchemaFieldProps> = ({ property, value, onChange, required }) => {
+  if (property.enum) {
+    return (
+      <CustomSelect
+        value={typeof value === 'string' ? value : ''}
+        onChange={(option) => onChange(option || undefined)}
+        options={[
+          ...(required ? [] : [{ value: '', label: '（不填）' }]),
+          ...property.enum.map(option => ({ value: option, label: option })),
+        ]}
+        className="text-sm"
+      />
+    );
+  }
+
+  switch (property.type) {
+    case 'string':
+      return (
+        <input
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+        />
+      );
+
+    case 'number':
+    case 'integer':
+      return (
+        <input
+          type="number"
+          step={property.type === 'integer' ? 1 : 'any'}
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+          className={inputClassName}
+        />
+      );
+
+    case 'boolean':
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked)}
+          className="w-4 h-4 accent-indigo-500"
+        />
+      );
+
+    case 'array': {
+      const items = Array.isArray(value) ? value : [];
+      const itemProperty = property.items ?? { type: 'string' };
+      return (
+        <div className="space-y-1.5">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start gap-1.5">
+              <span className="mt-1.5 text-[11px] text-slate-400 w-5 text-right flex-shrink-0">{index + 1}.</span>
+              <div className="flex-1 min-w-0">
+                <SchemaInput
+                  property={itemProperty}
+                  value={item}
+                  onChange={(next) => onChange(items.map((entry, i) => i === index ? next : entry))}
+                  required
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+                className="mt-1 p-0.5 rounded text-slate-400 hover:text-red-500"
+                title="移除"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange([...items, getEmptyToolArgument(itemProperty)])}
+            className="flex items-center gap-1 text-xs font-medium text-indigo-500 hover:text-indigo-600"
+          >
+            <Plus className="w-3 h-3" />
+            添加
+          </button>
+        </div>
+      );
+    }
+
+    case 'object':
+      if (property.properties) {
+        return (
+          <div className="pl-3 border-l-2 border-indigo-100">
+            <SchemaFields
+              properties={property.properties}
+              required={property.required}
+              value={value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}}
+              onChange={onChange}
+            />
+          </div>
+        );
+      }
+      return <JSONField value={value} onChange={onChange} />;
+
+    default:
+      return <JSONField value={value} onChange={onChange} />;
+  }
+};
+
+const SchemaFields: React.FC<{
+  properties: Record<string, MCPToolProperty>;
+  required?: string[];
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+}> = ({ properties, required = [], value, onChange }) => (
+  <div className="space-y-2.5">
+    {Object.entries(properties).map(([name, property]) => {
+      const isRequired = required.includes(name);
+      const isBoolean = property.type === 'boolean' && !property.enum;
+      return (
+        <div key={name} className={isBoolean ? 'flex items-center gap-2' : ''}>
+          {isBoolean && (
+            <SchemaInput
+              property={property}
+              value={value[name]}
+              onChange={(next) => onChange({ ...value, [name]: next })}
+              required={isRequired}
+            />
+          )}
+          <div className={isBoolean ? 'min-w-0' : 'mb-0.5'}>
+            <span className="text-xs font-medium text-slate-600">
+              {property.title || name}
+              {isRequired && <span className="text-red-500 ml-0.5">*</span>}
+            </span>
+            <span className="ml-1.5 text-[11px] text-slate-400">{property.type}</span>
+            {property.description && (
+              <span className="block text-[11px] text-slate-400">{property.description}</span>
+            )}
+          </div>
+          {!isBoolean && (
+            <SchemaInput
+              property={property}
+              value={value[name]}
+              onChange={(next) => onChange({ ...value, [name]: next })}
+              required={isRequired}
+            />
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+// 工具参数表单：按 inputSchema 生成（枚举、默认值、数组、嵌套对象）
+const MCPToolArgumentsForm: React.FC<MCPToolArgumentsFormProps> = ({ schema, value, onChange }) => {
+  if (!schema.properties || Object.keys(schema.properties).length === 0) {
+    return <p className="text-sm text-slate-400">该工具没有参数</p>;
+  }
+
+  return (
+    <SchemaFields
+      properties={schema.properties}
+      required={schema.required}
+      value={value}
+      onChange={onChange}
+    />
+  );
+};
+
+export default MCPToolArgumentsForm;
@@ -0,0 +1,57 @@
+'use client';
+
+import React, { useState } from 'react';
+import Image from 'next/image';
+import { MCPContent } from '@/lib/mcp/types';
+
+interface MCPToolMediaProps {
+  media: MCPContent[];
+}
+
+// 工具返回的图片（缩略图，点击放大）和音频（播放器）
+const MCPToolMedia: React.FC<MCPToolMediaProps> = ({ media }) => {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  return (
+    <div className="mt-1.5 flex flex-wrap items-start gap-1.5">
+      {media.map((item, index) => {
+        const src = `data:${item.mimeType};base64,${item.data}`;
+        if (item.type === 'audio') {
+          return <audio key={index} controls src={src} className="h-8 max-w-full" />;
+        }
+        return (
+          <button
+            key={index}
+            onClick={() => setExpandedIndex(prev => prev === index ? null : index)}
+            className="rounded-md border border-slate-200 bg-white overflow-hidden hover:ring-2 hover:ring-indigo-200 transition-all"
+            title={expandedIndex === index ? '收起' : '放大'}
+          >
+            {/* data URL 无需经过图片优化；放大时按原始尺寸显示 */}
+            {expandedIndex === index ? (
+              <Image
+                src={src}
+                alt={`工具返回的图片 ${index + 1}`}
+                unoptimized
+                width={0}
+                height={0}
+                sizes="100vw"
+                className="w-auto h-auto max-w-full max-h-[480px] object-contain"
+              />
+            ) : (
+              <Image
+                src={src}
+                alt={`工具返回的图片 ${index + 1}`}
+                unoptimized
+                width={64}
+                height={64}
+                className="h-16 w-16 object-cover"
+              />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MCPToolMedia;
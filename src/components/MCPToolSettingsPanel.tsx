@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Pencil } from 'lucide-react';
+import { useSidebar } from './SidebarContext';
+import CustomSelect from './CustomSelect';
+import { getMCPToolTitle, isMCPToolDestructive, isMCPToolIdempotent, isMCPToolReadOnly } from '@/lib/mcp/tool-settings';
+import { MCPTool, MCPToolApprovalPolicy, MCPToolSettings } from '@/lib/mcp/types';
+
+interface MCPToolSettingsPanelProps {
+  serverId: string;
+}
+
+const APPROVAL_OPTIONS: { value: MCPToolApprovalPolicy; label: string }[] = [
+  { value: 'always', label: '每次调用前确认' },
+  { value: 'once', label: '每个会话确认一次' },
+  { value: 'never', label: '无需确认' },
+];
+
+const badgeClassName = 'px-1 py-px text-[9px] font-medium rounded flex-shrink-0';
+
+// 根据工具注解显示的标记
+const ToolAnnotationBadges: React.FC<{ tool: MCPTool }> = ({ tool }) => (
+  <>
+    {isMCPToolReadOnly(tool) && (
+      <span className={`${badgeClassName} bg-emerald-50 text-emerald-600`} title="只读，不会修改数据；可与其他只读调用并行执行">只读</span>
+    )}
+    {isMCPToolDestructive(tool) && (
+      <span className={`${badgeClassName} bg-red-50 text-red-600`} title={tool.annotations ? '可能执行破坏性修改；默认每次调用前确认' : '未提供注解，按规范视为可能执行破坏性修改'}>破坏性</span>
+    )}
+    {!isMCPToolReadOnly(tool) && isMCPToolIdempotent(tool) && (
+      <span className={`${badgeClassName} bg-slate-100 text-slate-500`} title="幂等，失败后可自动重试">幂等</span>
+    )}
+  </>
+);
+
+const inputClassName = 'w-full px-2 py-1 text-[11px] rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-indigo-300';
+
+// 工具设置：选择暴露给模型的工具，设置别名、描述和调用前的确认策略
+const MCPToolSettingsPanel: React.FC<MCPToolSettingsPanelProps> = ({ serverId }) => {
+  const { mcpServers, saveMCPToolSettings } = useSidebar();
+  const server = mcpServers.find(s => s.config.id === serverId);
+
+  const [enabledByDefault, setEnabledByDefault] = useState(server?.config.toolsEnabledByDefault ?? true);
+  // 空字符串表示未设置：按工具注解决定
+  const [approvalPolicy, setApprovalPolicy] = useState<MCPToolApprovalPolicy | ''>(server?.config.approvalPolicy ?? '');
+  const [settings, setSettings] = useState<Record<string, MCPToolSettings>>(server?.config.toolSettings ?? {});
+  const [editingTool, setEditingTool] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!server) return null;
+
+  const updateTool = (toolName: string, updates: Partial<MCPToolSettings>) => {
+    setSettings(prev => ({ ...prev, [toolName]: { ...prev[toolName], ...updates } }));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveMCPToolSettings(serverId, {
+        toolsEnabledByDefault: enabledByDefault,
+        approvalPolicy: approvalPolicy || undefined,
+        toolSettings: settings,
+      });
+      setIsDirty(false);
+      setEditingTool(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="mt-2 pt-2 border-t border-indigo-100/80 space-y-1">
+      <label className="flex items-center gap-1.5 text-[11px] text-slate-500 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabledByDefault}
+          onChange={(e) => {
+            setEnabledByDefault(e.target.checked);
+            setIsDirty(true);
+          }}
+          className="w-3 h-3 accent-indigo-500"
+        />
+        新工具默认启用
+      </label>
+
+      <div className="flex items-center gap-1.5 text-[11px] text-slate-500">
+        <span className="flex-shrink-0">调用确认</span>
+        <CustomSelect
+          value={approvalPolicy}
+          onChange={(value) => {
+            setApprovalPolicy(value as MCPToolApprovalPolicy | '');
+            setIsDirty(true);
+          }}
+          options={[{ value: '', label: '按工具注解（声明为破坏性的工具每次确认）' }, ...APPROVAL_OPTIONS]}
+          className="flex-1 text-[11px]"
+        />
+      </div>
+
+      <div className="max-h-[240px] overflow-y-auto space-y-0.5">
+        {server.tools.map(tool => {
+          const toolSettings = settings[tool.name] ?? {};
+          const isEnabled = toolSettings.enabled ?? enabledByDefault;
+          return (
+            <div key={tool.name} className="rounded-md px-1 py-0.5 hover:bg-white/70">
+              <div className="flex items-center gap-1.5">
+                <input
+                  type="checkbox"
+                  checked={isEnabled}
+                  onChange={(e) => updateTool(tool.name, { enabled: e.target.checked })}
+                  className="w-3 h-3 accent-indigo-500 flex-shrink-0"
+                />
+                <span
+                  className={`flex-1 text-[11px] truncate ${isEnabled ? 'text-slate-700' : 'text-slate-400 line-through'}`}
+                  title={[getMCPToolTitle(tool), toolSettings.description || tool.description].filter(Boolean).join('\n')}
+                >
+                  {toolSettings.alias ? `${toolSettings.alias} (${tool.name})` : tool.name}
+                </span>
+                <ToolAnnotationBadges tool={tool} />
+                <button
+                  onClick={() => setEditingTool(prev => prev === tool.name ? null : tool.name)}
+                  className={`p-0.5 rounded flex-shrink-0 ${editingTool === tool.name ? 'text-indigo-600' : 'text-slate-300 hover:text-indigo-500'}`}
+                  title="设置别名、描述和确认策略"
+                >
+                  <Pencil className="w-2.5 h-2.5" />
+                </button>
+              </div>
+
+              {editingTool === tool.name && (
+                <div className="mt-1 ml-4 space-y-1">
+                  <input
+                    value={toolSettings.alias ?? ''}
+                    onChange={(e) => updateTool(tool.name, { alias: e.target.value })}
+                    placeholder={`别名（默认 ${tool.name}）`}
+                    className={inputClassName}
+                  />
+                  <textarea
+                    value={toolSettings.description ?? ''}
+                    onChange={(e) => updateTool(tool.name, { description: e.target.value })}
+                    placeholder={tool.description || '描述'}
+                    rows={3}
+                    className={`${inputClassName} resize-y`}
+                  />
+                  <CustomSelect
+                    value={toolSettings.approval ?? ''}
+                    onChange={(value) => updateTool(tool.name, {
+                      approval: value ? value as MCPToolApprovalPolicy : undefined,
+                    })}
+                    options={[{ value: '', label: '确认策略：跟随服务器' }, ...APPROVAL_OPTIONS]}
+                    className="text-[11px]"
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-[11px] text-red-500 break-words">{error}</p>}
+
+      {isDirty && (
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className={`flex items-center gap-1 px-2.5 py-1 text-[11px] font-medium text-white rounded-md
+              bg-gradient-to-r from-indigo-500 to-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+            保存
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MCPToolSettingsPanel;
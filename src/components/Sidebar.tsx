@@ -1,8 +1,16 @@
 'use client';
 
-import React from 'react';
-import { Loader2, AlertCircle, Zap, Power } from 'lucide-react';
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Loader2, AlertCircle, Zap, Power, FolderOpen, Info, KeyRound, Plus, Pencil, Trash2, Upload, Download, ScrollText, FlaskConical } from 'lucide-react';
 import { useSidebar } from './SidebarContext';
+import MCPLogPanel from './MCPLogPanel';
+import MCPResourceBrowser from './MCPResourceBrowser';
+import MCPRootsPanel from './MCPRootsPanel';
+import MCPServerForm from './MCPServerForm';
+import MCPServerImport from './MCPServerImport';
+import MCPToolSettingsPanel from './MCPToolSettingsPanel';
+import { getExposedMCPTools } from '@/lib/mcp/tool-settings';
 
 interface SidebarProps {
   isExpanded: boolean;
@@ -47,8 +55,30 @@ const Sidebar: React.FC<SidebarProps> = ({ isExpanded, toggleSidebar }) => {
     enabledServerIds, 
     toggleMCPServer,
     connectMCPServer,
+    authorizeMCPServer,
+    deleteMCPServer,
   } = useSidebar();
   
+  // 当前展开资源浏览器的服务器
+  const [resourceServerId, setResourceServerId] = useState<string | null>(null);
+  // 正在编辑的服务器（'new' 表示新增）
+  const [editingServerId, setEditingServerId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  // 当前展开工具设置的服务器
+  const [toolSettingsServerId, setToolSettingsServerId] = useState<string | null>(null);
+  // 当前展开日志面板的服务器
+  const [logServerId, setLogServerId] = useState<string | null>(null);
+
+  const handleDeleteServer = async (serverId: string, name: string) => {
+    if (!window.confirm(`确定删除服务器「${name}」吗？`)) return;
+    try {
+      await deleteMCPServer(serverId);
+    } catch (error) {
+      console.error(`[MCP] Failed to delete server ${serverId}:`, error);
+      window.alert(error instanceof Error ? error.message : '删除失败');
+    }
+  };
+  
   // 统计已启用和已连接的服务器数量
   const enabledCount = enabledServerIds.size;
   const connectedCount = mcpServers.filter(s => s.isConnected && enabledServerIds.has(s.config.id)).length;
@@ -112,20 +142,70 @@ const Sidebar: React.FC<SidebarProps> = ({ isExpanded, toggleSidebar }) => {
               {/* Section Header */}
               <div className="flex items-center justify-between mb-3 px-1">
                 <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">MCP Servers</span>
-                {enabledCount > 0 && (
-                  <span className="text-xs font-medium text-indigo-500">
-                    {connectedCount}/{enabledCount} 在线
-                  </span>
-                )}
+                <div className="flex items-center gap-2">
+                  {enabledCount > 0 && (
+                    <span className="text-xs font-medium text-indigo-500">
+                      {connectedCount}/{enabledCount} 在线
+                    </span>
+                  )}
+                  <Link
+                    href="/mcp/playground"
+                    className="p-0.5 rounded-md text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                    title="工具调试台"
+                  >
+                    <FlaskConical className="w-3.5 h-3.5" />
+                  </Link>
+                  <button
+                    onClick={() => setIsImportOpen(prev => !prev)}
+                    className="p-0.5 rounded-md text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                    title="导入 mcpServers JSON"
+                  >
+                    <Upload className="w-3.5 h-3.5" />
+                  </button>
+                  <a
+                    href="/api/mcp/servers?format=mcpServers"
+                    download="mcp-servers.json"
+                    className="p-0.5 rounded-md text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                    title="导出 mcpServers JSON（不含令牌）"
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                  </a>
+                  <button
+                    onClick={() => setEditingServerId(prev => prev === 'new' ? null : 'new')}
+                    className="p-0.5 rounded-md text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                    title="添加服务器"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                </div>
               </div>
               
               {/* Server Cards */}
               <div className="space-y-2">
+                {isImportOpen && (
+                  <MCPServerImport onClose={() => setIsImportOpen(false)} />
+                )}
+
+                {editingServerId === 'new' && (
+                  <MCPServerForm onClose={() => setEditingServerId(null)} />
+                )}
+
                 {mcpServers.map(server => {
                   const isEnabled = enabledServerIds.has(server.config.id);
                   const isConnected = server.isConnected;
                   const isConnecting = server.isConnecting;
                   const hasError = !!server.error;
+                  const session = server.session;
+
+                  if (editingServerId === server.config.id) {
+                    return (
+                      <MCPServerForm
+                        key={server.config.id}
+                        server={server.config}
+                        onClose={() => setEditingServerId(null)}
+                      />
+                    );
+                  }
                   
                   return (
                     <div
@@ -177,14 +257,97 @@ const Sidebar: React.FC<SidebarProps> = ({ isExpanded, toggleSidebar }) => {
                             {hasError && isEnabled && (
                               <AlertCircle className="w-3 h-3 text-red-500 flex-shrink-0" />
                             )}
+
+                            {/* 用户添加的服务器可编辑、删除 */}
+                            {server.config.userDefined && (
+                              <div className="ml-auto hidden group-hover:flex items-center gap-0.5 flex-shrink-0">
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditingServerId(server.config.id);
+                                  }}
+                                  className="p-0.5 rounded text-slate-400 hover:text-indigo-600"
+                                  title="编辑"
+                                >
+                                  <Pencil className="w-3 h-3" />
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDeleteServer(server.config.id, server.config.name);
+                                  }}
+                                  className="p-0.5 rounded text-slate-400 hover:text-red-500"
+                                  title="删除"
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </button>
+                              </div>
+                            )}
                           </div>
                           
                           {/* Tools count or error */}
                           <div className="flex items-center gap-1 mt-0.5">
-                            {isConnected && server.tools.length > 0 ? (
-                              <span className="text-[11px] text-emerald-600/80">
-                                {server.tools.length} tools
-                              </span>
+                            {isConnected ? (
+                              <>
+                                {server.tools.length > 0 ? (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setToolSettingsServerId(prev => prev === server.config.id ? null : server.config.id);
+                                    }}
+                                    className={`text-[11px] transition-colors ${
+                                      toolSettingsServerId === server.config.id ? 'text-indigo-600' : 'text-emerald-600/80 hover:text-indigo-500'
+                                    }`}
+                                    title="选择暴露给模型的工具"
+                                  >
+                                    {getExposedMCPTools(server.config, server.tools).length}/{server.tools.length} tools
+                                  </button>
+                                ) : (
+                                  <span className="text-[11px] text-slate-400">无工具</span>
+                                )}
+                                {isEnabled && session?.capabilities.resources && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setResourceServerId(prev => prev === server.config.id ? null : server.config.id);
+                                    }}
+                                    className={`ml-1 flex items-center gap-0.5 text-[11px] font-medium transition-colors ${
+                                      resourceServerId === server.config.id ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-500'
+                                    }`}
+                                    title="浏览资源"
+                                  >
+                                    <FolderOpen className="w-3 h-3" />
+                                    资源
+                                  </button>
+                                )}
+                                {isEnabled && session?.capabilities.logging && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setLogServerId(prev => prev === server.config.id ? null : server.config.id);
+                                    }}
+                                    className={`ml-1 flex items-center gap-0.5 text-[11px] font-medium transition-colors ${
+                                      logServerId === server.config.id ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-500'
+                                    }`}
+                                    title="查看服务器日志"
+                                  >
+                                    <ScrollText className="w-3 h-3" />
+                                    日志
+                                  </button>
+                                )}
+                              </>
+                            ) : server.authorizationRequired && isEnabled ? (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  authorizeMCPServer(server.config.id);
+                                }}
+                                className="flex items-center gap-0.5 text-[11px] text-indigo-500 hover:text-indigo-600 font-medium transition-colors"
+                                title={server.error}
+                              >
+                                <KeyRound className="w-3 h-3" />
+                                授权
+                              </button>
                             ) : hasError && isEnabled ? (
                               <button
                                 onClick={(e) => {
@@ -201,6 +364,22 @@ const Sidebar: React.FC<SidebarProps> = ({ isExpanded, toggleSidebar }) => {
                               </span>
                             )}
                           </div>
+
+                          {/* Negotiated server info */}
+                          {isConnected && session && (
+                            <div
+                              className="flex items-center gap-1 mt-0.5 text-[10px] text-slate-400"
+                              title={[
+                                `能力: ${Object.keys(session.capabilities).join(', ') || '无'}`,
+                                session.instructions,
+                              ].filter(Boolean).join('\n\n')}
+                            >
+                              <span className="truncate">
+                                {session.serverInfo.title || session.serverInfo.name} {session.serverInfo.version} · MCP {session.protocolVersion}
+                              </span>
+                              {session.instructions && <Info className="w-2.5 h-2.5 flex-shrink-0" />}
+                            </div>
+                          )}
                         </div>
                         
                         {/* Toggle Switch */}
@@ -220,6 +399,21 @@ const Sidebar: React.FC<SidebarProps> = ({ isExpanded, toggleSidebar }) => {
                           />
                         </div>
                       </div>
+                      
+                      {/* Tool settings */}
+                      {toolSettingsServerId === server.config.id && isConnected && (
+                        <MCPToolSettingsPanel serverId={server.config.id} />
+                      )}
+
+                      {/* Resource browser */}
+                      {resourceServerId === server.config.id && isEnabled && isConnected && (
+                        <MCPResourceBrowser serverId={server.config.id} />
+                      )}
+
+                      {/* Server logs */}
+                      {logServerId === server.config.id && isEnabled && isConnected && (
+                        <MCPLogPanel serverId={server.config.id} />
+                      )}
                     </div>
                   );
                 })}
@@ -233,6 +427,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isExpanded, toggleSidebar }) => {
                   </div>
                 )}
               </div>
+
+              {/* Roots */}
+              <MCPRootsPanel />
             </>
           ) : (
             /* 收起状态 - 显示图标列表 */
@@ -1,8 +1,21 @@
 'use client';
 
 import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
-import { MCPServerConfig, MCPServerState, MCPTool } from '@/lib/mcp/types';
+import {
+  MCPAttachedResource,
+  MCPConnectionState,
+  MCPPoolEvent,
+  MCPResourceContents,
+  MCPRoot,
+  MCPServerConfig,
+  MCPServerState,
+  MCPServerToolConfig,
+  MCPTool,
+} from '@/lib/mcp/types';
 import { MCP_SERVERS } from '@/lib/mcp/servers';
+import { mcpResourceContentsToText } from '@/lib/mcp/content';
+import { MCPServersImportSkipped } from '@/lib/mcp/config-format';
+import { getExposedMCPTools } from '@/lib/mcp/tool-settings';
 
 interface SidebarContextType {
   // Sidebar 展开/收起状态
@@ -16,16 +29,53 @@ interface SidebarContextType {
   setMCPServerEnabled: (serverId: string, enabled: boolean) => void;
   connectMCPServer: (serverId: string) => Promise<void>;
   disconnectMCPServer: (serverId: string) => void;
+  // 同步服务器端客户端的连接状态（如对话过程中的会话重连）
+  reportMCPConnectionState: (serverId: string, state: MCPConnectionState) => void;
+  // 打开 OAuth 授权窗口，授权完成后自动重新连接
+  authorizeMCPServer: (serverId: string) => Promise<void>;
+  // 保存（新增或编辑）用户添加的服务器，返回保存后的配置
+  saveMCPServer: (config: Partial<MCPServerConfig>) => Promise<MCPServerConfig>;
+  deleteMCPServer: (serverId: string) => Promise<void>;
+  // 保存服务器的工具设置（启用/禁用、别名、描述覆盖）
+  saveMCPToolSettings: (serverId: string, settings: MCPServerToolConfig) => Promise<void>;
+  // 导入 mcpServers JSON，返回导入数量和被跳过的条目
+  importMCPServers: (data: string) => Promise<{ imported: number; skipped: MCPServersImportSkipped[] }>;
   
   // MCP 工具
   getAllMCPTools: () => { serverId: string; serverName: string; tool: MCPTool }[];
   
+  // 附加到对话的 MCP 资源
+  attachedResources: MCPAttachedResource[];
+  attachMCPResource: (serverId: string, uri: string, name?: string) => Promise<void>;
+  detachMCPResource: (serverId: string, uri: string) => void;
+  clearMCPResources: () => void;
+  toggleMCPResourceSubscription: (serverId: string, uri: string) => Promise<void>;
+  refreshMCPResources: () => Promise<MCPAttachedResource[]>;
+
+  // 当前对话 ID：服务器据此区分各对话的根目录
+  conversationId: string;
+  // 开始新对话（生成新的对话 ID，根目录重新设置）
+  startNewConversation: () => void;
+
+  // 当前对话的根目录（服务器可访问的目录）
+  mcpRoots: MCPRoot[];
+  // 替换根目录（路径或 file:// URI），并通知已连接的服务器
+  saveMCPRoots: (roots: Partial<MCPRoot>[]) => Promise<void>;
+  
   // 状态标志
   isConnectingAny: boolean;
 }
 
 const SidebarContext = createContext<SidebarContextType | undefined>(undefined);
 
+/**
+ * 生成对话 ID（getRandomValues 在非安全上下文中也可用）
+ */
+function createConversationId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
 export const SidebarProvider = ({ children }: { children: ReactNode }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   
@@ -51,6 +101,13 @@ export const SidebarProvider = ({ children }: { children: ReactNode }) => {
     return defaultEnabled;
   });
 
+  // 附加到对话的 MCP 资源
+  const [attachedResources, setAttachedResources] = useState<MCPAttachedResource[]>([]);
+
+  // 当前对话及其根目录
+  const [conversationId, setConversationId] = useState(createConversationId);
+  const [mcpRoots, setMCPRoots] = useState<MCPRoot[]>([]);
+
   // Auto-collapse sidebar on mobile screens
   useEffect(() => {
     const handleResize = () => {
@@ -127,6 +184,15 @@ export const SidebarProvider = ({ children }: { children: ReactNode }) => {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+        if (errorData.authorizationRequired) {
+          updateServerState(serverId, {
+            isConnected: false,
+            isConnecting: false,
+            authorizationRequired: true,
+            error: errorData.error,
+          });
+          return;
+        }
         throw new Error(errorData.error || `Connection failed: ${response.status}`);
       }
 
@@ -141,6 +207,8 @@ export const SidebarProvider = ({ children }: { children: ReactNode }) => {
         isConnected: true,
         isConnecting: false,
         tools: data.tools || [],
+        session: data.session,
+        authorizationRequired: false,
         lastConnected: new Date(),
       });
     } catch (error) {
@@ -159,10 +227,101 @@ export const SidebarProvider = ({ children }: { children: ReactNode }) => {
       isConnected: false,
       isConnecting: false,
       tools: [],
+      session: undefined,
       error: undefined,
     });
   }, [updateServerState]);
 
+  // 同步服务器端报告的连接状态
+  const reportMCPConnectionState = useCallback((serverId: string, state: MCPConnectionState) => {
+    switch (state) {
+      case 'connecting':
+      case 'reconnecting':
+        updateServerState(serverId, { isConnecting: true });
+        break;
+      case 'connected':
+        updateServerState(serverId, { isConnected: true, isConnecting: false, error: undefined });
+        break;
+      case 'failed':
+        updateServerState(serverId, { isConnected: false, isConnecting: false, error: '连接已断开' });
+        break;
+      case 'disconnected':
+        updateServerState(serverId, { isConnected: false, isConnecting: false });
+        break;
+    }
+  }, [updateServerState]);
+
+  // 发起 OAuth 授权
+  const authorizeMCPServer = useCallback(async (serverId: string) => {
+    // 先在点击事件中同步打开窗口，避免被浏览器拦截
+    const popup = window.open('', 'mcp-oauth', 'width=600,height=720');
+
+    try {
+      const response = await fetch('/api/mcp/oauth/authorize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serverId }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Authorization failed: ${response.status}`);
+      }
+      if (!popup) {
+        throw new Error('授权窗口被浏览器拦截，请允许弹出窗口后重试');
+      }
+      popup.location.href = data.authorizationUrl;
+    } catch (error) {
+      popup?.close();
+      console.error(`[MCP] Failed to start authorization for ${serverId}:`, error);
+      updateServerState(serverId, { error: error instanceof Error ? error.message : '发起授权失败' });
+    }
+  }, [updateServerState]);
+
+  // 授权窗口完成授权后通知本页面，随即重新连接
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== 'mcp-oauth-complete') {
+        return;
+      }
+      if (!event.data.success || !event.data.serverId) {
+        console.warn('[MCP] Authorization failed:', event.data.error);
+        return;
+      }
+      const serverId = event.data.serverId as string;
+      console.log(`[MCP] Server ${serverId} authorized, reconnecting`);
+      updateServerState(serverId, { authorizationRequired: false, error: undefined });
+      connectMCPServer(serverId);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+    };
+  }, [connectMCPServer, updateServerState]);
+
+  // 订阅服务器端事件：工具列表变化、连接状态变化
+  useEffect(() => {
+    const source = new EventSource('/api/mcp/events');
+
+    source.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data) as MCPPoolEvent;
+        if (data.type === 'tools_changed') {
+          console.log(`[MCP] Tool list updated for ${data.serverId}: ${data.tools.length} tools`);
+          updateServerState(data.serverId, { tools: data.tools });
+        } else if (data.type === 'mcp_connection') {
+          reportMCPConnectionState(data.serverId, data.state);
+        }
+      } catch (error) {
+        console.warn('[MCP] Failed to parse server event:', error);
+      }
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [updateServerState, reportMCPConnectionState]);
+
   // 当服务器启用状态改变时，自动连接/断开
   // 使用 ref 来跟踪已经尝试连接的服务器，避免无限循环
   const connectionAttemptsRef = React.useRef<Set<string>>(new Set());
@@ -187,13 +346,127 @@ export const SidebarProvider = ({ children }: { children: ReactNode }) => {
     });
   }, [enabledServerIds, mcpServers, connectMCPServer, disconnectMCPServer]);
 
+  // 加载服务器端保存的服务器列表（包括用户添加的服务器）
+  useEffect(() => {
+    const loadServers = async () => {
+      try {
+        const response = await fetch('/api/mcp/servers');
+        if (!response.ok) return;
+        const data = await response.json();
+        const configs = data.servers as MCPServerConfig[];
+        // 已有的服务器保留连接状态，配置以服务器端为准（包括保存的工具设置）
+        setMCPServers(prev => configs.map(config => {
+          const existing = prev.find(s => s.config.id === config.id);
+          return existing ? { ...existing, config } : {
+            config,
+            isConnected: false,
+            isConnecting: false,
+            tools: [],
+          };
+        }));
+      } catch (error) {
+        console.warn('[MCP] Failed to load server list:', error);
+      }
+    };
+
+    loadServers();
+  }, []);
+
+  // 保存用户添加的服务器；编辑后按新配置重新连接
+  const saveMCPServer = useCallback(async (config: Partial<MCPServerConfig>) => {
+    const response = await fetch('/api/mcp/servers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'save', config }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to save server: ${response.status}`);
+    }
+
+    const saved = data.server as MCPServerConfig;
+    const freshState: MCPServerState = { config: saved, isConnected: false, isConnecting: false, tools: [] };
+    setMCPServers(prev => prev.some(s => s.config.id === saved.id)
+      ? prev.map(s => s.config.id === saved.id ? freshState : s)
+      : [...prev, freshState]);
+    connectionAttemptsRef.current.delete(saved.id);
+    setMCPServerEnabled(saved.id, true);
+    return saved;
+  }, [setMCPServerEnabled]);
+
+  // 保存工具设置，下一次对话时生效
+  const saveMCPToolSettings = useCallback(async (
+    serverId: string,
+    settings: MCPServerToolConfig
+  ) => {
+    const response = await fetch('/api/mcp/servers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'tools', serverId, config: settings }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to save tool settings: ${response.status}`);
+    }
+    updateServerState(serverId, { config: data.server as MCPServerConfig });
+  }, [updateServerState]);
+
+  // 批量导入服务器（不自动启用）
+  const importMCPServers = useCallback(async (data: string) => {
+    const response = await fetch('/api/mcp/servers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'import', data }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || `Failed to import servers: ${response.status}`);
+    }
+
+    const imported = result.servers as MCPServerConfig[];
+    setMCPServers(prev => {
+      const next = [...prev];
+      for (const config of imported) {
+        const freshState: MCPServerState = { config, isConnected: false, isConnecting: false, tools: [] };
+        const index = next.findIndex(s => s.config.id === config.id);
+        if (index === -1) {
+          next.push(freshState);
+        } else {
+          next[index] = freshState;
+        }
+      }
+      return next;
+    });
+    imported.forEach(config => connectionAttemptsRef.current.delete(config.id));
+
+    return { imported: imported.length, skipped: result.skipped as MCPServersImportSkipped[] };
+  }, []);
+
+  // 删除用户添加的服务器
+  const deleteMCPServer = useCallback(async (serverId: string) => {
+    const response = await fetch('/api/mcp/servers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'delete', serverId }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Failed to delete server: ${response.status}`);
+    }
+
+    setMCPServers(prev => prev.filter(s => s.config.id !== serverId));
+    setMCPServerEnabled(serverId, false);
+    setAttachedResources(prev => prev.filter(r => r.serverId !== serverId));
+    connectionAttemptsRef.current.delete(serverId);
+  }, [setMCPServerEnabled]);
+
   // 获取所有已连接服务器的工具
   const getAllMCPTools = useCallback(() => {
     const allTools: { serverId: string; serverName: string; tool: MCPTool }[] = [];
     
     mcpServers.forEach(server => {
       if (server.isConnected && enabledServerIds.has(server.config.id)) {
-        server.tools.forEach(tool => {
+        getExposedMCPTools(server.config, server.tools).forEach(tool => {
           allTools.push({
             serverId: server.config.id,
             serverName: server.config.name,
@@ -206,6 +479,133 @@ export const SidebarProvider = ({ children }: { children: ReactNode }) => {
     return allTools;
   }, [mcpServers, enabledServerIds]);
 
+  // 调用资源 API
+  const postResourceAction = useCallback(async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/mcp/resources', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Resource request failed: ${response.status}`);
+    }
+    return data;
+  }, []);
+
+  // 读取资源并附加到对话
+  const attachMCPResource = useCallback(async (serverId: string, uri: string, name?: string) => {
+    const server = mcpServers.find(s => s.config.id === serverId);
+    const data = await postResourceAction({ serverId, action: 'read', uri });
+    const contents: MCPResourceContents[] = data.contents || [];
+    const text = mcpResourceContentsToText(contents);
+
+    if (!text) {
+      throw new Error('该资源没有可附加的文本内容');
+    }
+
+    const resource: MCPAttachedResource = {
+      serverId,
+      serverName: server?.config.name ?? serverId,
+      uri,
+      name: name || uri,
+      mimeType: contents[0]?.mimeType,
+      text,
+      subscribed: false,
+    };
+
+    setAttachedResources(prev => [
+      ...prev.filter(r => !(r.serverId === serverId && r.uri === uri)),
+      resource,
+    ]);
+  }, [mcpServers, postResourceAction]);
+
+  // 移除附加的资源（同时取消订阅）
+  const detachMCPResource = useCallback((serverId: string, uri: string) => {
+    const resource = attachedResources.find(r => r.serverId === serverId && r.uri === uri);
+    if (resource?.subscribed) {
+      postResourceAction({ serverId, action: 'unsubscribe', uri }).catch(error => {
+        console.warn(`[MCP] Failed to unsubscribe ${uri}:`, error);
+      });
+    }
+    setAttachedResources(prev => prev.filter(r => !(r.serverId === serverId && r.uri === uri)));
+  }, [attachedResources, postResourceAction]);
+
+  // 清除所有附加的资源
+  const clearMCPResources = useCallback(() => {
+    attachedResources
+      .filter(r => r.subscribed)
+      .forEach(r => {
+        postResourceAction({ serverId: r.serverId, action: 'unsubscribe', uri: r.uri }).catch(error => {
+          console.warn(`[MCP] Failed to unsubscribe ${r.uri}:`, error);
+        });
+      });
+    setAttachedResources([]);
+  }, [attachedResources, postResourceAction]);
+
+  // 切换资源订阅，订阅后发送消息前会自动拉取更新
+  const toggleMCPResourceSubscription = useCallback(async (serverId: string, uri: string) => {
+    const resource = attachedResources.find(r => r.serverId === serverId && r.uri === uri);
+    if (!resource) {
+      return;
+    }
+
+    const action = resource.subscribed ? 'unsubscribe' : 'subscribe';
+    await postResourceAction({ serverId, action, uri });
+    setAttachedResources(prev => prev.map(r =>
+      r.serverId === serverId && r.uri === uri ? { ...r, subscribed: !resource.subscribed } : r
+    ));
+  }, [attachedResources, postResourceAction]);
+
+  // 重新读取有更新的已订阅资源，返回最新的附加资源列表
+  const refreshMCPResources = useCallback(async () => {
+    const refreshed = await Promise.all(attachedResources.map(async resource => {
+      if (!resource.subscribed) {
+        return resource;
+      }
+      try {
+        const data = await postResourceAction({
+          serverId: resource.serverId,
+          action: 'read',
+          uri: resource.uri,
+          onlyIfUpdated: true,
+        });
+        if (!data.updated) {
+          return resource;
+        }
+        console.log(`[MCP] Resource updated: ${resource.uri}`);
+        return { ...resource, text: mcpResourceContentsToText(data.contents || []) || resource.text };
+      } catch (error) {
+        console.warn(`[MCP] Failed to refresh resource ${resource.uri}:`, error);
+        return resource;
+      }
+    }));
+
+    setAttachedResources(refreshed);
+    return refreshed;
+  }, [attachedResources, postResourceAction]);
+
+  // 开始新对话：根目录属于对话，新对话重新设置
+  const startNewConversation = useCallback(() => {
+    setConversationId(createConversationId());
+    setMCPRoots([]);
+  }, []);
+
+  // 替换当前对话的根目录
+  const saveMCPRoots = useCallback(async (roots: Partial<MCPRoot>[]) => {
+    const response = await fetch('/api/mcp/roots', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversationId, roots }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to save roots: ${response.status}`);
+    }
+    setMCPRoots(data.roots as MCPRoot[]);
+  }, [conversationId]);
+
   // 检查是否有任何服务器正在连接
   const isConnectingAny = mcpServers.some(s => s.isConnecting);
 
@@ -219,7 +619,23 @@ export const SidebarProvider = ({ children }: { children: ReactNode }) => {
       setMCPServerEnabled,
       connectMCPServer,
       disconnectMCPServer,
+      reportMCPConnectionState,
+      authorizeMCPServer,
+      saveMCPServer,
+      deleteMCPServer,
+      saveMCPToolSettings,
+      importMCPServers,
       getAllMCPTools,
+      attachedResources,
+      attachMCPResource,
+      detachMCPResource,
+      clearMCPResources,
+      toggleMCPResourceSubscription,
+      refreshMCPResources,
+      conversationId,
+      startNewConversation,
+      mcpRoots,
+      saveMCPRoots,
       isConnectingAny,
     }}>
       {children}
@@ -1,6 +1,8 @@
 export interface ModelDefinition {
   id: string;
   name: string;
+  // 是否支持图片输入（上传的图片与 MCP 工具返回的图片）
+  supportsVision?: boolean;
 }
 
 export const models: ModelDefinition[] = [
@@ -8,23 +10,28 @@ export const models: ModelDefinition[] = [
   {
     id: 'openai/gpt-5',
     name: 'GPT-5',
+    supportsVision: true,
   },
   {
     id: 'openai/gpt-5-mini',
     name: 'GPT-5 Mini',
+    supportsVision: true,
   },
   {
     id: 'openai/gpt-5-nano',
     name: 'GPT-5 Nano',
+    supportsVision: true,
   },
   // o 系列 (推理模型)
   {
     id: 'openai/o4-mini',
     name: 'o4-mini',
+    supportsVision: true,
   },
   {
     id: 'openai/o3',
     name: 'o3',
+    supportsVision: true,
   },
   {
     id: 'openai/o3-mini',
@@ -33,6 +40,7 @@ export const models: ModelDefinition[] = [
   {
     id: 'openai/o1',
     name: 'o1',
+    supportsVision: true,
   },
   {
     id: 'openai/o1-preview',
@@ -46,17 +54,21 @@ export const models: ModelDefinition[] = [
   {
     id: 'openai/gpt-4.1',
     name: 'GPT-4.1',
+    supportsVision: true,
   },
   {
     id: 'openai/gpt-4.1-mini',
     name: 'GPT-4.1 Mini',
+    supportsVision: true,
   },
   {
     id: 'openai/gpt-4o',
     name: 'GPT-4o',
+    supportsVision: true,
   },
   {
     id: 'openai/gpt-4o-mini',
     name: 'GPT-4o Mini',
+    supportsVision: true,
   },
 ];
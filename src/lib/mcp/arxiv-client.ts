@@ -68,6 +68,11 @@ export const ARXIV_TOOLS: MCPTool[] = [
       },
       required: ['query'],
     },
+    annotations: {
+      title: '搜索 arXiv 论文',
+      readOnlyHint: true,
+      openWorldHint: true,
+    },
   },
   {
     name: 'arxiv_fetch',
@@ -87,6 +92,11 @@ export const ARXIV_TOOLS: MCPTool[] = [
       },
       required: ['url'],
     },
+    annotations: {
+      title: '获取 arXiv 论文',
+      readOnlyHint: true,
+      openWorldHint: true,
+    },
   },
 ];
 
@@ -5,21 +5,79 @@
  * - 初始化连接
  * - 获取工具列表
  * - 执行工具调用
+ * - 浏览、读取和订阅资源
+ * - 获取提示词模板
+ * - 接收服务器通知（进度、日志、列表变更）
  * 
- * 支持 Streamable HTTP 传输方式（SSE）
+ * 支持 Streamable HTTP 传输方式（SSE）和本地 stdio 子进程
  */
 
 import {
   MCPServerConfig,
+  MCPConnectionState,
   MCPTool,
   MCPToolCallParams,
   MCPToolCallResult,
   MCPRequest,
   MCPResponse,
+  MCPNotification,
+  MCPMessage,
   MCPInitializeResult,
+  MCPServerCapabilities,
+  MCPClientCapabilities,
   MCPToolsListResult,
-  MCPContent,
+  MCPProgressNotificationParams,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPResourcesListResult,
+  MCPResourceTemplatesListResult,
+  MCPReadResourceResult,
+  MCPPrompt,
+  MCPPromptsListResult,
+  MCPGetPromptResult,
+  MCPLoggingLevel,
+  MCPCompleteParams,
+  MCPCompleteResult,
+  MCPCompletion,
 } from './types';
+import { MCPTransport, MCPHttpError, MCPSessionExpiredError, MCPTimeoutError } from './transport';
+import { validateJSONSchema } from './schema';
+import { StreamableHTTPTransport } from './http-transport';
+import { LegacySSETransport } from './legacy-sse-transport';
+import { StdioTransport } from './stdio-transport';
+
+export { mcpContentToText, mcpResultMedia, mcpResultToText, mcpResourceContentsToText } from './content';
+
+// 客户端支持的协议版本（按新旧排序，第一个为发起握手时提供的版本）
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// 默认超时时间
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+const DEFAULT_TOOL_CALL_TIMEOUT_MS = 120_000;
+
+// 幂等请求的默认重试次数与退避基数
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+// 可安全重试的幂等方法
+const IDEMPOTENT_METHODS = new Set([
+  'initialize',
+  'ping',
+  'tools/list',
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'prompts/list',
+]);
+
+// 客户端声明的能力，以及对应的服务器请求方法
+const CLIENT_CAPABILITIES: MCPClientCapabilities = {
+  roots: { listChanged: true },
+  sampling: {},
+  elicitation: {},
+};
+const CLIENT_REQUEST_METHODS = new Set(['roots/list', 'sampling/createMessage', 'elicitation/create']);
 
 // 请求ID计数器
 let requestIdCounter = 0;
@@ -32,122 +90,146 @@ function generateRequestId(): number {
 }
 
 /**
- * SSE 响应解析结果
+ * 判断错误是否为可重试的临时错误（超时、网络错误、服务器 5xx / 429）
  */
-interface SSEParseResult<T> {
-  result: T;
-  sessionId?: string;
+function isTransientError(error: unknown): boolean {
+  if (error instanceof MCPTimeoutError) {
+    return true;
+  }
+  if (error instanceof MCPHttpError) {
+    return error.status >= 500 || error.status === 429;
+  }
+  // fetch 的网络错误（连接被拒绝、DNS 失败等）
+  return error instanceof TypeError;
 }
 
 /**
- * 解析 SSE 响应
+ * 单次请求选项
  */
-async function parseSSEResponse<T>(response: Response): Promise<SSEParseResult<T>> {
-  const text = await response.text();
-  const lines = text.split('\n');
-  
-  let result: T | null = null;
-  const sessionId = response.headers.get('mcp-session-id') || undefined;
-  
-  for (const line of lines) {
-    if (line.startsWith('data: ')) {
-      const data = line.slice(6);
-      if (data.trim()) {
-        try {
-          const parsed = JSON.parse(data);
-          // MCP SSE 响应包含完整的 JSON-RPC 消息
-          if (parsed.result !== undefined) {
-            result = parsed.result as T;
-          } else if (parsed.error) {
-            throw new Error(`MCP error: ${parsed.error.message} (code: ${parsed.error.code})`);
-          }
-        } catch (e) {
-          // 如果不是 JSON，跳过
-          if (e instanceof SyntaxError) continue;
-          throw e;
-        }
-      }
-    }
-  }
-  
-  if (result === null) {
-    throw new Error('No valid response data found in SSE stream');
-  }
-  
-  return { result, sessionId };
+interface MCPRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // 会话失效时是否重新初始化并重放
+  retryOnExpiry?: boolean;
+  // 按幂等请求处理（临时错误时重试），用于声明为幂等的工具调用
+  idempotent?: boolean;
+  // 记录发出的请求和收到的响应（含重试），用于调试
+  onMessage?: MCPMessageListener;
+  // 所属的工具调用，等待响应期间登记为进行中
+  toolCall?: ActiveToolCall;
 }
 
 /**
- * MCP 请求结果
+ * 进行中的工具调用：服务器在调用期间发起的请求交给该调用的处理器
  */
-interface MCPRequestResult<T> {
-  result: T;
-  sessionId?: string;
+interface ActiveToolCall {
+  progressToken?: string;
+  requestHandlers: Record<string, MCPRequestHandler>;
 }
 
 /**
- * 发送 MCP 请求到服务器
+ * 等待响应的请求
  */
-async function sendMCPRequest<TParams, TResult>(
-  endpoint: string,
-  method: string,
-  params?: TParams,
-  auth?: MCPServerConfig['auth'],
-  sessionId?: string
-): Promise<MCPRequestResult<TResult>> {
-  const request: MCPRequest<TParams> = {
-    jsonrpc: '2.0',
-    id: generateRequestId(),
-    method,
-    params,
-  };
+interface PendingRequest {
+  method: string;
+  onMessage?: MCPMessageListener;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
 
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json, text/event-stream',
-  };
+/**
+ * JSON-RPC 消息监听器
+ */
+export type MCPMessageListener = (message: MCPMessage) => void;
 
-  // 添加 session ID
-  if (sessionId) {
-    headers['mcp-session-id'] = sessionId;
-  }
+/**
+ * 通知监听器
+ */
+export type MCPNotificationListener = (notification: MCPNotification) => void;
 
-  // 添加认证头
-  if (auth) {
-    if (auth.type === 'bearer' && auth.token) {
-      headers['Authorization'] = `Bearer ${auth.token}`;
-    } else if (auth.type === 'api-key' && auth.token) {
-      const headerName = auth.headerName || 'X-API-Key';
-      headers[headerName] = auth.token;
-    }
-  }
+/**
+ * 连接状态监听器
+ */
+export type MCPConnectionStateListener = (state: MCPConnectionState) => void;
 
-  const response = await fetch(endpoint, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(request),
-  });
+/**
+ * 工具列表变化监听器
+ */
+export type MCPToolsChangedListener = (tools: MCPTool[]) => void;
 
-  if (!response.ok) {
-    throw new Error(`MCP request failed: ${response.status} ${response.statusText}`);
-  }
+/**
+ * 服务器发起的请求（如 sampling/createMessage）的处理器，返回响应结果
+ *
+ * 抛出 MCPRequestError 时按其错误码回复服务器
+ */
+export type MCPRequestHandler = (params: unknown) => Promise<unknown>;
 
-  const contentType = response.headers.get('content-type') || '';
-  
-  // 检查是否是 SSE 响应
-  if (contentType.includes('text/event-stream')) {
-    return parseSSEResponse<TResult>(response);
+/**
+ * 回复服务器请求时的 JSON-RPC 错误
+ */
+export class MCPRequestError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'MCPRequestError';
+    this.code = code;
   }
-  
-  // 普通 JSON 响应
-  const data: MCPResponse<TResult> = await response.json();
-  const newSessionId = response.headers.get('mcp-session-id') || undefined;
+}
+
+/**
+ * 工具调用选项
+ */
+export interface MCPCallToolOptions {
+  // 服务器发送 notifications/progress 时回调
+  onProgress?: (progress: MCPProgressNotificationParams) => void;
+  // 中止时取消调用，并通知服务器
+  signal?: AbortSignal;
+  // 工具声明为只读或幂等时，临时错误可按幂等请求重试
+  idempotent?: boolean;
+  // 记录原始 JSON-RPC 请求与响应
+  onMessage?: MCPMessageListener;
+  // 调用期间服务器发起的请求（如 sampling/createMessage）的处理器；
+  // 连接由多个对话共享，服务器请求只交给引发它的调用
+  requestHandlers?: Record<string, MCPRequestHandler>;
+}
 
-  if (data.error) {
-    throw new Error(`MCP error: ${data.error.message} (code: ${data.error.code})`);
+/**
+ * 根据配置创建传输层
+ */
+function createTransport(config: MCPServerConfig): MCPTransport {
+  if (config.transport === 'stdio') {
+    return new StdioTransport(config);
+  }
+  if (config.transport === 'sse') {
+    return new LegacySSETransport(config);
   }
+  return new StreamableHTTPTransport(config);
+}
+
+/**
+ * 判断 Streamable HTTP 初始化失败后是否应回退到旧版 HTTP+SSE 传输
+ *
+ * 旧版服务器不接受对主地址的 POST（通常返回 404/405）；认证失败不回退
+ */
+function shouldFallbackToLegacySSE(error: unknown): boolean {
+  return error instanceof MCPHttpError &&
+    error.status >= 400 && error.status < 500 &&
+    error.status !== 401 && error.status !== 403;
+}
 
-  return { result: data.result as TResult, sessionId: newSessionId };
+/**
+ * 判断消息是否为响应
+ */
+function isResponse(message: MCPMessage): message is MCPResponse {
+  return 'id' in message && !('method' in message);
+}
+
+/**
+ * 判断消息是否为服务器发起的请求
+ */
+function isRequest(message: MCPMessage): message is MCPRequest {
+  return 'id' in message && 'method' in message;
 }
 
 /**
@@ -159,10 +241,92 @@ export class MCPClient {
   private config: MCPServerConfig;
   private tools: MCPTool[] = [];
   private initialized = false;
-  private sessionId?: string;
+  private state: MCPConnectionState = 'disconnected';
+  private stateListeners: Set<MCPConnectionStateListener> = new Set();
+  private toolsListeners: Set<MCPToolsChangedListener> = new Set();
+  private reconnecting?: Promise<void>;
+  private session?: MCPInitializeResult;
+  private transport: MCPTransport;
+  private pendingRequests: Map<string | number, PendingRequest> = new Map();
+  private notificationListeners: Map<string, Set<MCPNotificationListener>> = new Map();
+  private requestHandlers: Map<string, MCPRequestHandler> = new Map();
+  private activeToolCalls: Map<string | number, ActiveToolCall> = new Map();
+  // 正在处理的服务器请求数（可能在等待用户操作）
+  private activeServerRequests = 0;
+  private subscribedResources: Set<string> = new Set();
+  private updatedResources: Set<string> = new Set();
 
   constructor(config: MCPServerConfig) {
     this.config = config;
+
+    this.transport = this.attachTransport(createTransport(config));
+
+    // 服务器工具列表变化时重新拉取
+    this.onNotification('notifications/tools/list_changed', () => {
+      if (!this.initialized) return;
+      console.log(`[MCP] Tool list changed on ${config.id}, refreshing`);
+      this.listTools().catch(error => {
+        console.error(`[MCP] Failed to refresh tools for ${config.id}:`, error);
+      });
+    });
+
+    // 记录订阅资源的更新，读取后清除
+    this.onNotification('notifications/resources/updated', notification => {
+      const uri = (notification.params as { uri?: string } | undefined)?.uri;
+      if (uri && this.subscribedResources.has(uri)) {
+        this.updatedResources.add(uri);
+      }
+    });
+  }
+
+  /**
+   * 将传输层事件接入客户端
+   */
+  private attachTransport(transport: MCPTransport): MCPTransport {
+    transport.onMessage = (message, relatedRequestId) => this.dispatchMessage(message, relatedRequestId);
+    // 连接意外断开（如子进程崩溃）时，进行中的请求全部失败
+    transport.onClose = error => {
+      this.initialized = false;
+      this.setState('failed');
+      this.rejectPendingRequests(error);
+    };
+    // 子进程重启后是全新的会话，需要重新握手
+    transport.onRestart = () => {
+      this.reconnect().catch(error => {
+        console.error(`[MCP] Failed to re-initialize ${this.config.id} after restart:`, error);
+      });
+    };
+    return transport;
+  }
+
+  /**
+   * 获取当前连接状态
+   */
+  getState(): MCPConnectionState {
+    return this.state;
+  }
+
+  /**
+   * 监听连接状态变化，返回取消监听的函数
+   */
+  onStateChange(listener: MCPConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private setState(state: MCPConnectionState): void {
+    if (this.state === state) return;
+    console.log(`[MCP] ${this.config.id} connection state: ${this.state} -> ${state}`);
+    this.state = state;
+    for (const listener of this.stateListeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('[MCP] Connection state listener error:', error);
+      }
+    }
   }
 
   /**
@@ -179,6 +343,39 @@ export class MCPClient {
     return this.initialized;
   }
 
+  /**
+   * 获取初始化握手结果（协商的协议版本、服务器能力、服务器信息与说明）
+   */
+  getSession(): MCPInitializeResult | undefined {
+    return this.session;
+  }
+
+  /**
+   * 检查服务器是否声明了某项能力
+   */
+  hasCapability(capability: keyof MCPServerCapabilities): boolean {
+    return !!this.session?.capabilities?.[capability];
+  }
+
+  /**
+   * 服务器未声明能力时拒绝调用对应方法
+   */
+  private assertCapability(capability: keyof MCPServerCapabilities, method: string): void {
+    if (!this.hasCapability(capability)) {
+      throw new Error(`MCP server ${this.config.id} does not support ${method}`);
+    }
+  }
+
+  /**
+   * 监听工具列表更新（每次重新拉取后触发），返回取消监听的函数
+   */
+  onToolsChanged(listener: MCPToolsChangedListener): () => void {
+    this.toolsListeners.add(listener);
+    return () => {
+      this.toolsListeners.delete(listener);
+    };
+  }
+
   /**
    * 获取缓存的工具列表
    */
@@ -186,117 +383,644 @@ export class MCPClient {
     return this.tools;
   }
 
+  /**
+   * 监听服务器通知
+   * 
+   * method 为 '*' 时接收所有通知，返回取消监听的函数
+   */
+  onNotification(method: string, listener: MCPNotificationListener): () => void {
+    let listeners = this.notificationListeners.get(method);
+    if (!listeners) {
+      listeners = new Set();
+      this.notificationListeners.set(method, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 处理服务器发起的某类请求，返回取消处理的函数
+   *
+   * 用于不属于任何工具调用的请求（如连接建立后的 roots/list）；
+   * 工具调用期间的请求优先交给该调用的 requestHandlers
+   */
+  handleRequest(method: string, handler: MCPRequestHandler): () => void {
+    this.requestHandlers.set(method, handler);
+
+    return () => {
+      if (this.requestHandlers.get(method) === handler) {
+        this.requestHandlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * 通知服务器根目录列表已变化，服务器随后会重新请求 roots/list
+   */
+  async notifyRootsChanged(): Promise<void> {
+    if (!this.initialized) return;
+    await this.sendNotification('notifications/roots/list_changed', {});
+  }
+
+  /**
+   * 查找引发服务器请求的工具调用
+   *
+   * 优先按所在的响应流（Streamable HTTP）匹配，其次按 _meta.progressToken；
+   * 无法确定来源时（stdio、旧版 SSE、独立通知流），仅在只有一个进行中的调用时归属于它
+   */
+  private findToolCall(request: MCPRequest, relatedRequestId?: string | number): ActiveToolCall | undefined {
+    if (relatedRequestId !== undefined) {
+      return this.activeToolCalls.get(relatedRequestId);
+    }
+
+    const progressToken = (request.params as { _meta?: { progressToken?: unknown } } | undefined)?._meta?.progressToken;
+    if (progressToken !== undefined) {
+      const call = [...this.activeToolCalls.values()].find(c => c.progressToken === progressToken);
+      if (call) return call;
+    }
+
+    if (this.activeToolCalls.size === 1) {
+      return this.activeToolCalls.values().next().value;
+    }
+    return undefined;
+  }
+
+  /**
+   * 执行服务器请求的处理器并回复结果或错误
+   *
+   * 无法归属到进行中的工具调用、且连接上没有对应处理器时回复错误
+   */
+  private async respondToRequest(request: MCPRequest, relatedRequestId?: string | number): Promise<void> {
+    const toolCall = this.findToolCall(request, relatedRequestId);
+    const handler = toolCall?.requestHandlers[request.method] ?? this.requestHandlers.get(request.method);
+    let response: MCPResponse;
+    this.activeServerRequests++;
+    try {
+      if (!handler) {
+        throw CLIENT_REQUEST_METHODS.has(request.method)
+          ? new MCPRequestError(-32603, `No in-flight tool call can handle ${request.method}`)
+          : new MCPRequestError(-32601, `Method not found: ${request.method}`);
+      }
+      response = { jsonrpc: '2.0', id: request.id, result: await handler(request.params) };
+    } catch (error) {
+      const code = error instanceof MCPRequestError ? error.code : -32603;
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[MCP] Server request ${request.method} from ${this.config.id} failed: ${message}`);
+      response = { jsonrpc: '2.0', id: request.id, error: { code, message } };
+    } finally {
+      this.activeServerRequests--;
+    }
+
+    await this.transport.send(response);
+  }
+
+  /**
+   * 建立传输连接并发送 initialize 请求
+   */
+  private async sendInitialize(): Promise<MCPInitializeResult> {
+    await this.transport.start();
+
+    return this.request<MCPInitializeResult>('initialize', {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: CLIENT_CAPABILITIES,
+      clientInfo: {
+        name: 'agentic-ai-app',
+        version: '0.1.0',
+      },
+    }, { retryOnExpiry: false });
+  }
+
   /**
    * 初始化与 MCP 服务器的连接
    */
   async initialize(): Promise<MCPInitializeResult> {
-    const { result, sessionId } = await sendMCPRequest<object, MCPInitializeResult>(
-      this.config.endpoint,
-      'initialize',
-      {
-        protocolVersion: '2024-11-05',
-        capabilities: {
-          tools: {},
-        },
-        clientInfo: {
-          name: 'agentic-ai-app',
-          version: '0.1.0',
-        },
-      },
-      this.config.auth
-    );
+    this.setState('connecting');
+    try {
+      const result = await this.handshake();
+      this.setState('connected');
+      return result;
+    } catch (error) {
+      this.setState('failed');
+      throw error;
+    }
+  }
 
-    // 保存 session ID
-    if (sessionId) {
-      this.sessionId = sessionId;
+  /**
+   * 会话失效后重新初始化（并发调用共享同一次重连），并恢复资源订阅
+   */
+  reconnect(): Promise<void> {
+    if (!this.reconnecting) {
+      this.reconnecting = (async () => {
+        this.initialized = false;
+        this.setState('reconnecting');
+        try {
+          await this.handshake();
+        } catch (error) {
+          this.setState('failed');
+          throw error;
+        }
+
+        if (this.subscribedResources.size > 0) {
+          this.transport.listen?.();
+        }
+        for (const uri of this.subscribedResources) {
+          // 断线期间可能错过了更新通知，视为已更新
+          this.updatedResources.add(uri);
+          await this.request<object>('resources/subscribe', { uri }, { retryOnExpiry: false }).catch(error => {
+            console.warn(`[MCP] Failed to restore subscription ${uri} (${this.config.id}):`, error);
+            this.subscribedResources.delete(uri);
+          });
+        }
+
+        this.setState('connected');
+      })().finally(() => {
+        this.reconnecting = undefined;
+      });
+    }
+    return this.reconnecting;
+  }
+
+  /**
+   * 完成初始化握手：协商协议版本、发送 initialized 通知并加载工具列表
+   *
+   * 握手中的请求不做会话失效重试，避免与 reconnect 相互等待
+   */
+  private async handshake(): Promise<MCPInitializeResult> {
+    let result: MCPInitializeResult;
+    try {
+      result = await this.sendInitialize();
+    } catch (error) {
+      // 未显式指定传输方式的服务器，Streamable HTTP 失败时尝试旧版 HTTP+SSE
+      if (this.config.transport || !shouldFallbackToLegacySSE(error)) {
+        throw error;
+      }
+      console.log(`[MCP] ${this.config.id} rejected Streamable HTTP (${(error as Error).message}), falling back to HTTP+SSE`);
+      await this.transport.close();
+      this.transport = this.attachTransport(new LegacySSETransport(this.config));
+      result = await this.sendInitialize();
     }
 
+    // 服务器可能返回更旧的版本；不在支持范围内时断开
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      await this.transport.close();
+      throw new Error(`MCP server ${this.config.id} requested unsupported protocol version: ${result.protocolVersion}`);
+    }
+    console.log(`[MCP] ${this.config.id} negotiated protocol version ${result.protocolVersion}`);
+
+    this.session = { ...result, capabilities: result.capabilities || {} };
+    this.transport.setProtocolVersion?.(result.protocolVersion);
+
     // 发送 initialized 通知（MCP 规范要求）
     await this.sendNotification('notifications/initialized', {});
 
     this.initialized = true;
+
+    // 服务器会主动推送列表变更时，打开接收通知的通道
+    const { tools, resources, prompts } = this.session.capabilities;
+    if (tools?.listChanged || resources?.listChanged || prompts?.listChanged) {
+      this.transport.listen?.();
+    }
     
     // 初始化成功后自动获取工具列表
-    await this.listTools();
+    await this.loadTools(false);
 
     return result;
   }
 
+  /**
+   * 分发单条 JSON-RPC 消息
+   */
+  private dispatchMessage(message: MCPMessage, relatedRequestId?: string | number): void {
+    // 响应：按请求 ID 匹配
+    if (isResponse(message)) {
+      const pending = this.pendingRequests.get(message.id);
+      if (!pending) {
+        console.warn(`[MCP] Received response for unknown request id: ${message.id}`);
+        return;
+      }
+      this.pendingRequests.delete(message.id);
+      pending.onMessage?.(message);
+
+      if (message.error) {
+        pending.reject(new Error(`MCP error: ${message.error.message} (code: ${message.error.code})`));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    // 服务器发起的请求：交给注册的处理器
+    if (isRequest(message)) {
+      this.respondToRequest(message, relatedRequestId).catch(error => {
+        console.error(`[MCP] Failed to respond to server request ${message.method}:`, error);
+      });
+      return;
+    }
+
+    // 通知：分发给对应方法和通配符的监听器
+    const listeners = [
+      ...(this.notificationListeners.get(message.method) ?? []),
+      ...(this.notificationListeners.get('*') ?? []),
+    ];
+    for (const listener of listeners) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(`[MCP] Notification listener error (${message.method}):`, error);
+      }
+    }
+  }
+
+  /**
+   * 发送请求并等待响应
+   *
+   * - 服务器会话失效时重新初始化，并重放一次该请求
+   * - 幂等方法遇到临时错误时按指数退避重试
+   */
+  private async request<TResult>(
+    method: string,
+    params?: object,
+    options: MCPRequestOptions = {}
+  ): Promise<TResult> {
+    const { retryOnExpiry = true, idempotent = false, ...sendOptions } = options;
+    const maxRetries = idempotent || IDEMPOTENT_METHODS.has(method)
+      ? this.config.maxRetries ?? DEFAULT_MAX_RETRIES
+      : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendRequest<TResult>(method, params, sendOptions);
+      } catch (error) {
+        if (retryOnExpiry && error instanceof MCPSessionExpiredError) {
+          console.log(`[MCP] ${error.message}, re-initializing before retrying ${method}`);
+          await this.reconnect();
+          return this.sendRequest<TResult>(method, params, sendOptions);
+        }
+
+        if (attempt >= maxRetries || !isTransientError(error) || sendOptions.signal?.aborted) {
+          throw error;
+        }
+
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        console.warn(`[MCP] ${method} failed for ${this.config.id} (${(error as Error).message}), ` +
+          `retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * 发送请求并等待匹配的响应
+   * 
+   * 响应一旦到达即返回，剩余的流（如后续通知）在后台继续读取；
+   * 超时或 signal 中止时放弃等待，并向服务器发送 notifications/cancelled
+   */
+  private sendRequest<TResult>(
+    method: string,
+    params: object | undefined,
+    options: Omit<MCPRequestOptions, 'retryOnExpiry' | 'idempotent'>
+  ): Promise<TResult> {
+    const { signal, onMessage, toolCall } = options;
+    const timeoutMs = options.timeoutMs ?? this.config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    const id = generateRequestId();
+
+    return new Promise<TResult>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(`MCP request cancelled: ${method}`));
+        return;
+      }
+
+      // 用于中止传输层上仍在进行的发送（如未结束的 SSE 响应流）
+      const sendController = new AbortController();
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.activeToolCalls.delete(id);
+      };
+
+      const cancel = (error: Error, reason: string) => {
+        if (!this.pendingRequests.delete(id)) return;
+        cleanup();
+        sendController.abort();
+        reject(error);
+
+        // 规范要求 initialize 请求不可取消
+        if (method !== 'initialize') {
+          this.sendNotification('notifications/cancelled', { requestId: id, reason }).catch(notifyError => {
+            console.warn(`[MCP] Failed to send cancellation for ${method} (${this.config.id}):`, notifyError);
+          });
+        }
+      };
+
+      const onAbort = () => cancel(new Error(`MCP request cancelled: ${method}`), 'Cancelled by user');
+      // 服务器请求（采样、征询）等待用户操作期间，进行中的请求不计超时
+      const onTimeout = () => {
+        if (this.activeServerRequests > 0) {
+          timer = setTimeout(onTimeout, timeoutMs);
+          return;
+        }
+        cancel(new MCPTimeoutError(method, timeoutMs), `Timed out after ${timeoutMs}ms`);
+      };
+      let timer = setTimeout(onTimeout, timeoutMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pendingRequests.set(id, {
+        method,
+        onMessage,
+        resolve: result => {
+          cleanup();
+          resolve(result as TResult);
+        },
+        reject: error => {
+          cleanup();
+          reject(error);
+        },
+      });
+
+      if (toolCall) {
+        this.activeToolCalls.set(id, toolCall);
+      }
+
+      const request: MCPRequest = { jsonrpc: '2.0', id, method, params };
+      onMessage?.(request);
+      this.transport.send(request, sendController.signal)
+        .catch(error => {
+          if (this.pendingRequests.delete(id)) {
+            cleanup();
+            reject(error instanceof Error ? error : new Error(String(error)));
+          }
+        });
+    });
+  }
+
   /**
    * 发送通知（不期望响应）
    */
   private async sendNotification(method: string, params: object): Promise<void> {
-    const notification = {
+    await this.transport.send({
       jsonrpc: '2.0',
       method,
       params,
-    };
+    });
+  }
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json, text/event-stream',
-    };
+  /**
+   * 逐页请求列表，直到没有 nextCursor
+   */
+  private async collectPages<TPage extends { nextCursor?: string }, TItem>(
+    method: string,
+    getItems: (page: TPage) => TItem[] | undefined,
+    options: MCPRequestOptions = {}
+  ): Promise<TItem[]> {
+    const items: TItem[] = [];
+    const seenCursors = new Set<string>();
+    let cursor: string | undefined;
 
-    // 添加 session ID
-    if (this.sessionId) {
-      headers['mcp-session-id'] = this.sessionId;
-    }
+    do {
+      const page = await this.request<TPage>(method, cursor ? { cursor } : {}, options);
+      items.push(...(getItems(page) ?? []));
+      cursor = page.nextCursor;
 
-    // 添加认证头
-    if (this.config.auth) {
-      if (this.config.auth.type === 'bearer' && this.config.auth.token) {
-        headers['Authorization'] = `Bearer ${this.config.auth.token}`;
-      } else if (this.config.auth.type === 'api-key' && this.config.auth.token) {
-        const headerName = this.config.auth.headerName || 'X-API-Key';
-        headers[headerName] = this.config.auth.token;
+      // 防止服务器返回重复游标导致死循环
+      if (cursor && seenCursors.has(cursor)) {
+        console.warn(`[MCP] Repeated cursor from ${this.config.id} for ${method}, stopping pagination`);
+        break;
       }
-    }
+      if (cursor) {
+        seenCursors.add(cursor);
+      }
+    } while (cursor);
 
-    await fetch(this.config.endpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(notification),
-    });
+    return items;
   }
 
   /**
-   * 获取服务器提供的工具列表
+   * 获取服务器提供的工具列表（跟随游标取完所有分页）
    */
   async listTools(): Promise<MCPTool[]> {
-    const { result } = await sendMCPRequest<object, MCPToolsListResult>(
-      this.config.endpoint,
-      'tools/list',
-      {},
-      this.config.auth,
-      this.sessionId
-    );
+    return this.loadTools(true);
+  }
 
-    this.tools = result.tools || [];
+  private async loadTools(retryOnExpiry: boolean): Promise<MCPTool[]> {
+    this.tools = this.hasCapability('tools')
+      ? await this.collectPages<MCPToolsListResult, MCPTool>(
+        'tools/list',
+        page => page.tools,
+        { retryOnExpiry }
+      )
+      : [];
+
+    for (const listener of this.toolsListeners) {
+      try {
+        listener(this.tools);
+      } catch (error) {
+        console.error('[MCP] Tools listener error:', error);
+      }
+    }
     return this.tools;
   }
 
   /**
    * 调用工具
+   * 
+   * 提供 onProgress 时附带 progressToken，服务器可据此推送进度通知；
+   * 工具声明了 outputSchema 时校验结构化结果
    */
-  async callTool(params: MCPToolCallParams): Promise<MCPToolCallResult> {
-    const { result } = await sendMCPRequest<MCPToolCallParams, MCPToolCallResult>(
-      this.config.endpoint,
-      'tools/call',
-      params,
-      this.config.auth,
-      this.sessionId
+  async callTool(params: MCPToolCallParams, options: MCPCallToolOptions = {}): Promise<MCPToolCallResult> {
+    const result = await this.sendToolCall(params, options);
+    this.validateToolResult(params.name, result);
+    return result;
+  }
+
+  /**
+   * 按工具的 outputSchema 校验结构化结果，不符合时抛出错误
+   */
+  private validateToolResult(toolName: string, result: MCPToolCallResult): void {
+    const outputSchema = this.tools.find(tool => tool.name === toolName)?.outputSchema;
+    // 工具执行出错时的结果不受 outputSchema 约束
+    if (!outputSchema || result.isError) return;
+
+    if (!result.structuredContent) {
+      throw new Error(`Tool ${toolName} declares an outputSchema but returned no structuredContent`);
+    }
+    const errors = validateJSONSchema(result.structuredContent, outputSchema);
+    if (errors.length > 0) {
+      throw new Error(`Tool ${toolName} returned structuredContent that does not match its outputSchema: ${errors.join('; ')}`);
+    }
+  }
+
+  private async sendToolCall(params: MCPToolCallParams, options: MCPCallToolOptions): Promise<MCPToolCallResult> {
+    const { onProgress, signal, idempotent, onMessage, requestHandlers = {} } = options;
+    const requestOptions = {
+      signal,
+      idempotent,
+      onMessage,
+      timeoutMs: this.config.toolCallTimeoutMs ?? DEFAULT_TOOL_CALL_TIMEOUT_MS,
+    };
+    if (!onProgress) {
+      return this.request<MCPToolCallResult>('tools/call', params, {
+        ...requestOptions,
+        toolCall: { requestHandlers },
+      });
+    }
+
+    const progressToken = `progress-${generateRequestId()}`;
+    const unsubscribe = this.onNotification('notifications/progress', notification => {
+      const progress = notification.params as MCPProgressNotificationParams | undefined;
+      if (progress?.progressToken === progressToken) {
+        onProgress(progress);
+      }
+    });
+
+    try {
+      return await this.request<MCPToolCallResult>('tools/call', {
+        ...params,
+        _meta: { ...params._meta, progressToken },
+      }, { ...requestOptions, toolCall: { progressToken, requestHandlers } });
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  /**
+   * 获取服务器提供的资源列表
+   */
+  async listResources(): Promise<MCPResource[]> {
+    if (!this.hasCapability('resources')) return [];
+    return this.collectPages<MCPResourcesListResult, MCPResource>(
+      'resources/list',
+      page => page.resources
     );
+  }
 
+  /**
+   * 获取服务器提供的资源模板列表
+   */
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    if (!this.hasCapability('resources')) return [];
+    return this.collectPages<MCPResourceTemplatesListResult, MCPResourceTemplate>(
+      'resources/templates/list',
+      page => page.resourceTemplates
+    );
+  }
+
+  /**
+   * 读取资源内容
+   */
+  async readResource(uri: string): Promise<MCPReadResourceResult> {
+    this.assertCapability('resources', 'resources/read');
+    const result = await this.request<MCPReadResourceResult>('resources/read', { uri });
+    this.updatedResources.delete(uri);
     return result;
   }
 
   /**
-   * 关闭连接（重置状态）
+   * 订阅资源更新
+   */
+  async subscribeResource(uri: string): Promise<void> {
+    if (!this.session?.capabilities.resources?.subscribe) {
+      throw new Error(`MCP server ${this.config.id} does not support resources/subscribe`);
+    }
+    // 更新通知通过独立的通道推送
+    this.transport.listen?.();
+    await this.request<object>('resources/subscribe', { uri });
+    this.subscribedResources.add(uri);
+  }
+
+  /**
+   * 取消订阅资源更新
+   */
+  async unsubscribeResource(uri: string): Promise<void> {
+    await this.request<object>('resources/unsubscribe', { uri });
+    this.subscribedResources.delete(uri);
+    this.updatedResources.delete(uri);
+  }
+
+  /**
+   * 检查是否存在资源订阅
+   */
+  hasResourceSubscriptions(): boolean {
+    return this.subscribedResources.size > 0;
+  }
+
+  /**
+   * 检查已订阅资源自上次读取后是否有更新
+   */
+  isResourceUpdated(uri: string): boolean {
+    return this.updatedResources.has(uri);
+  }
+
+  /**
+   * 获取服务器提供的提示词列表
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    if (!this.hasCapability('prompts')) return [];
+    return this.collectPages<MCPPromptsListResult, MCPPrompt>(
+      'prompts/list',
+      page => page.prompts
+    );
+  }
+
+  /**
+   * 获取填充参数后的提示词消息
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPGetPromptResult> {
+    this.assertCapability('prompts', 'prompts/get');
+    return this.request<MCPGetPromptResult>('prompts/get', { name, arguments: args });
+  }
+
+  /**
+   * 请求提示词参数或资源模板变量的补全候选值
+   */
+  async complete(params: MCPCompleteParams, options: MCPRequestOptions = {}): Promise<MCPCompletion> {
+    this.assertCapability('completions', 'completion/complete');
+    const result = await this.request<MCPCompleteResult>('completion/complete', params, options);
+    return result.completion ?? { values: [] };
+  }
+
+  /**
+   * 发送 ping 检查连接是否可用
+   */
+  async ping(): Promise<void> {
+    await this.request<object>('ping', {});
+  }
+
+  /**
+   * 设置服务器发送日志的最低级别
+   */
+  async setLoggingLevel(level: MCPLoggingLevel): Promise<void> {
+    this.assertCapability('logging', 'logging/setLevel');
+    await this.request<object>('logging/setLevel', { level });
+  }
+
+  /**
+   * 使所有进行中的请求失败
+   */
+  private rejectPendingRequests(error: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * 关闭连接（重置状态；HTTP 会话通过 DELETE 终止，stdio 服务器的子进程会被终止）
    */
   disconnect(): void {
+    this.transport.close().catch(error => {
+      console.error(`[MCP] Failed to close transport for ${this.config.id}:`, error);
+    });
+    this.rejectPendingRequests(new Error(`MCP client disconnected: ${this.config.id}`));
     this.initialized = false;
+    this.setState('disconnected');
+    this.session = undefined;
     this.tools = [];
-    this.sessionId = undefined;
+    this.subscribedResources.clear();
+    this.updatedResources.clear();
   }
 }
 
@@ -306,7 +1030,7 @@ export class MCPClient {
  * 管理多个 MCP 服务器连接
  */
 export class MCPClientManager {
-  private clients: Map<string, MCPClient> = new Map();
+  protected clients: Map<string, MCPClient> = new Map();
 
   /**
    * 添加或更新服务器配置
@@ -393,7 +1117,8 @@ export class MCPClientManager {
   async callTool(
     serverId: string,
     toolName: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    options?: MCPCallToolOptions
   ): Promise<MCPToolCallResult> {
     const client = this.clients.get(serverId);
     if (!client) {
@@ -407,7 +1132,7 @@ export class MCPClientManager {
     return client.callTool({
       name: toolName,
       arguments: args,
-    });
+    }, options);
   }
 
   /**
@@ -421,28 +1146,6 @@ export class MCPClientManager {
   }
 }
 
-/**
- * 将 MCP 工具结果转换为文本
- */
-export function mcpResultToText(result: MCPToolCallResult): string {
-  if (!result.content || result.content.length === 0) {
-    return '';
-  }
-
-  return result.content
-    .map((content: MCPContent) => {
-      if (content.type === 'text' && content.text) {
-        return content.text;
-      }
-      if (content.type === 'resource' && content.resource?.text) {
-        return content.resource.text;
-      }
-      return '';
-    })
-    .filter(Boolean)
-    .join('\n\n');
-}
-
 /**
  * 将 MCP 工具转换为 OpenAI 函数格式
  */
@@ -0,0 +1,156 @@
+/**
+ * 通用 mcpServers JSON 格式
+ *
+ * 与其他 MCP 客户端共享的服务器定义格式：
+ * { "mcpServers": { "<名称>": { "url": "...", "type": "http", "headers": {...} } } }
+ * 本地服务器使用 command / args / env 定义
+ */
+
+import { MCPServerConfig, MCPTransportType } from './types';
+
+// mcpServers 中的单个服务器定义
+export interface MCPServersFileEntry {
+  type?: string;
+  url?: string;
+  // 部分客户端使用 serverUrl
+  serverUrl?: string;
+  headers?: Record<string, string>;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  description?: string;
+}
+
+export interface MCPServersFile {
+  mcpServers: Record<string, MCPServersFileEntry>;
+}
+
+// 导入时被跳过的条目
+export interface MCPServersImportSkipped {
+  name: string;
+  reason: string;
+}
+
+/**
+ * 将 type 字段映射为传输类型
+ */
+function parseTransportType(type: string | undefined, hasCommand: boolean): MCPTransportType | undefined {
+  switch (type?.toLowerCase().replace(/[-_]/g, '')) {
+    case undefined:
+      return hasCommand ? 'stdio' : 'http';
+    case 'http':
+    case 'streamablehttp':
+      return 'http';
+    case 'sse':
+      return 'sse';
+    case 'stdio':
+      return 'stdio';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 解析 mcpServers JSON，返回可导入的服务器配置与被跳过的条目
+ *
+ * 只导入远程服务器：stdio 服务器会在服务器上执行命令，只能写在配置文件中
+ */
+export function parseMCPServersFile(text: string): {
+  servers: Partial<MCPServerConfig>[];
+  skipped: MCPServersImportSkipped[];
+} {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('无效的 JSON');
+  }
+
+  const entries = (data as Partial<MCPServersFile> | null)?.mcpServers;
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new Error('缺少 mcpServers 对象');
+  }
+
+  const servers: Partial<MCPServerConfig>[] = [];
+  const skipped: MCPServersImportSkipped[] = [];
+
+  for (const [name, entry] of Object.entries(entries)) {
+    if (!entry || typeof entry !== 'object') {
+      skipped.push({ name, reason: '无效的服务器定义' });
+      continue;
+    }
+
+    const transport = parseTransportType(entry.type, !!entry.command);
+    if (!transport) {
+      skipped.push({ name, reason: `不支持的传输类型: ${entry.type}` });
+      continue;
+    }
+    if (transport === 'stdio') {
+      skipped.push({ name, reason: 'stdio 服务器只能通过配置文件添加' });
+      continue;
+    }
+
+    const endpoint = entry.url ?? entry.serverUrl;
+    if (!endpoint) {
+      skipped.push({ name, reason: '缺少 url' });
+      continue;
+    }
+
+    servers.push({
+      name,
+      description: entry.description,
+      transport,
+      endpoint,
+      auth: { type: 'none' },
+      headers: entry.headers,
+    });
+  }
+
+  return { servers, skipped };
+}
+
+/**
+ * 导出为 mcpServers JSON（不含令牌；请求头和环境变量只保留名称，值留空）
+ */
+export function toMCPServersFile(configs: MCPServerConfig[]): MCPServersFile {
+  const mcpServers: Record<string, MCPServersFileEntry> = {};
+
+  const blankValues = (record?: Record<string, string>) => record && Object.keys(record).length > 0
+    ? Object.fromEntries(Object.keys(record).map(key => [key, '']))
+    : undefined;
+
+  for (const config of configs) {
+    // 本地内置服务器（如 arXiv）没有可共享的定义
+    if (config.endpoint?.startsWith('local://')) {
+      continue;
+    }
+
+    // 名称重复时追加 ID 区分
+    const name = mcpServers[config.name] ? `${config.name} (${config.id})` : config.name;
+
+    const headers = { ...blankValues(config.headers) };
+    if (config.auth?.type === 'bearer') {
+      headers['Authorization'] = '';
+    } else if (config.auth?.type === 'api-key') {
+      headers[config.auth.headerName || 'X-API-Key'] = '';
+    }
+
+    mcpServers[name] = config.transport === 'stdio'
+      ? {
+        command: config.command,
+        args: config.args,
+        env: blankValues(config.env),
+      }
+      : {
+        type: config.transport ?? 'http',
+        url: config.endpoint,
+        headers: Object.keys(headers).length > 0 ? headers : undefined,
+      };
+
+    if (config.description) {
+      mcpServers[name].description = config.description;
+    }
+  }
+
+  return { mcpServers };
+}
@@ -0,0 +1,81 @@
+/**
+ * MCP 内容转换工具
+ * 
+ * 不依赖任何传输实现，可在浏览器端组件中使用
+ */
+
+import { MCPContent, MCPResourceContents, MCPToolCallResult } from './types';
+
+/**
+ * 将单个 MCP 内容转换为文本（非文本内容返回空字符串）
+ */
+export function mcpContentToText(content: MCPContent): string {
+  if (content.type === 'text' && content.text) {
+    return content.text;
+  }
+  if (content.type === 'resource' && content.resource?.text) {
+    return content.resource.text;
+  }
+  return '';
+}
+
+/**
+ * 返回工具结果中的图片和音频内容（包括以 blob 嵌入的图片、音频资源）
+ */
+export function mcpResultMedia(result: MCPToolCallResult): MCPContent[] {
+  return (result.content ?? []).flatMap((content): MCPContent[] => {
+    if ((content.type === 'image' || content.type === 'audio') && content.data && content.mimeType) {
+      return [content];
+    }
+    const { resource } = content;
+    if (content.type === 'resource' && resource?.blob && resource.mimeType) {
+      const type = resource.mimeType.startsWith('image/') ? 'image'
+        : resource.mimeType.startsWith('audio/') ? 'audio'
+        : undefined;
+      return type ? [{ type, data: resource.blob, mimeType: resource.mimeType }] : [];
+    }
+    return [];
+  });
+}
+
+/**
+ * 判断文本是否为结构化结果的 JSON 序列化（服务器通常会同时在文本内容中返回一份）
+ */
+function isSerializedStructuredContent(text: string, structuredContent: Record<string, unknown>): boolean {
+  try {
+    return JSON.stringify(JSON.parse(text)) === JSON.stringify(structuredContent);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 将 MCP 工具结果转换为文本
+ *
+ * 有结构化结果时以 JSON 附在文本之后，并去掉与之重复的序列化文本；
+ * 图片和音频以占位说明代替，内容见 mcpResultMedia
+ */
+export function mcpResultToText(result: MCPToolCallResult): string {
+  const { structuredContent } = result;
+  const texts = (result.content ?? [])
+    // 图片和音频无法转为文本，保留一个占位说明
+    .map(content => content.type === 'image' || content.type === 'audio'
+      ? `[${content.type}: ${content.mimeType ?? 'unknown'}]`
+      : mcpContentToText(content))
+    .filter(text => text && !(structuredContent && isSerializedStructuredContent(text, structuredContent)));
+
+  if (structuredContent) {
+    texts.push(JSON.stringify(structuredContent, null, 2));
+  }
+  return texts.join('\n\n');
+}
+
+/**
+ * 将 MCP 资源内容转换为文本（忽略二进制内容）
+ */
+export function mcpResourceContentsToText(contents: MCPResourceContents[]): string {
+  return contents
+    .map(content => content.text ?? '')
+    .filter(Boolean)
+    .join('\n\n');
+}
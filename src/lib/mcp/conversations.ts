@@ -0,0 +1,51 @@
+/**
+ * MCP 对话状态（仅服务器端）
+ *
+ * 连接池中的连接由所有对话共享，只属于某个对话的状态（根目录、已确认的工具）按浏览器生成的对话 ID 保存；
+ * 长时间未使用的对话会被清理
+ */
+
+import { MCPRoot } from './types';
+
+// 对话状态的保留时间
+const CONVERSATION_TTL_MS = 24 * 60 * 60_000;
+
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+export interface MCPConversationState {
+  roots: MCPRoot[];
+  // 已确认过的工具（"serverId/toolName"），"每个会话确认一次"的工具不再重复询问
+  approvedTools: Set<string>;
+  lastUsedAt: number;
+}
+
+// 保存在 globalThis 上，对话路由与 MCP 路由共享
+const globalForConversations = globalThis as unknown as { mcpConversations?: Map<string, MCPConversationState> };
+const conversations: Map<string, MCPConversationState> = globalForConversations.mcpConversations ??= new Map();
+
+/**
+ * 检查对话 ID 格式
+ */
+export function isValidConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id);
+}
+
+/**
+ * 获取对话状态（不存在时创建），并清理过期的对话
+ */
+export function getMCPConversation(id: string): MCPConversationState {
+  const now = Date.now();
+  for (const [conversationId, state] of conversations) {
+    if (now - state.lastUsedAt > CONVERSATION_TTL_MS) {
+      conversations.delete(conversationId);
+    }
+  }
+
+  let state = conversations.get(id);
+  if (!state) {
+    state = { roots: [], approvedTools: new Set(), lastUsedAt: now };
+    conversations.set(id, state);
+  }
+  state.lastUsedAt = now;
+  return state;
+}
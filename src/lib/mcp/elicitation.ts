@@ -0,0 +1,58 @@
+/**
+ * MCP 征询（elicitation）
+ *
+ * 服务器在工具调用中途通过 elicitation/create 请求用户补充信息；
+ * 校验请求的表单定义和用户填写的内容，浏览器端表单与服务器端共用
+ */
+
+import { MCPElicitationSchema, MCPElicitRequestParams, MCPElicitResult, MCPJSONSchema } from './types';
+import { validateJSONSchema } from './schema';
+
+const PROPERTY_TYPES = ['string', 'number', 'integer', 'boolean'];
+
+/**
+ * 校验服务器发来的征询请求，不合法时抛出错误
+ */
+export function parseElicitationRequest(params: unknown): MCPElicitRequestParams {
+  const request = params as Partial<MCPElicitRequestParams> | undefined;
+  if (typeof request?.message !== 'string') {
+    throw new Error('Invalid params: message is required');
+  }
+
+  const schema = request.requestedSchema;
+  if (schema?.type !== 'object' || !schema.properties || typeof schema.properties !== 'object') {
+    throw new Error('Invalid params: requestedSchema must be an object schema');
+  }
+  for (const [name, property] of Object.entries(schema.properties)) {
+    if (!PROPERTY_TYPES.includes(property?.type)) {
+      throw new Error(`Invalid params: property ${name} must be a primitive type`);
+    }
+  }
+  return request as MCPElicitRequestParams;
+}
+
+/**
+ * 校验用户填写的内容，返回错误信息（为空表示通过）
+ */
+export function validateElicitationContent(
+  schema: MCPElicitationSchema,
+  content: NonNullable<MCPElicitResult['content']>
+): string[] {
+  const errors = validateJSONSchema(content, schema as unknown as MCPJSONSchema);
+
+  // validateJSONSchema 不处理 format
+  for (const [name, property] of Object.entries(schema.properties)) {
+    const value = content[name];
+    if (typeof value !== 'string' || !value) continue;
+    if (property.format === 'email' && !/^[^\s@]+@[^\s@]+$/.test(value)) {
+      errors.push(`$.${name}: 不是有效的邮箱地址`);
+    }
+    if (property.format === 'uri' && !URL.canParse(value)) {
+      errors.push(`$.${name}: 不是有效的 URI`);
+    }
+    if ((property.format === 'date' || property.format === 'date-time') && Number.isNaN(Date.parse(value))) {
+      errors.push(`$.${name}: 不是有效的日期`);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,260 @@
+/**
+ * Streamable HTTP 传输
+ *
+ * 每条消息通过 POST 发送，服务器以 JSON 或 SSE 流返回；
+ * 可选的 GET SSE 流用于接收不属于任何请求的服务器通知
+ */
+
+import { MCPServerConfig, MCPMessage } from './types';
+import { MCPTransport, MCPHttpError, MCPSessionExpiredError, MCPUnauthorizedError, buildAuthHeaders } from './transport';
+import { recordAuthChallenge, refreshOAuthAccessToken } from './oauth';
+import { readSSEEvents } from './sse';
+
+export class StreamableHTTPTransport implements MCPTransport {
+  onMessage?: (message: MCPMessage, relatedRequestId?: string | number) => void;
+  onClose?: (error: Error) => void;
+  onRestart?: () => void;
+
+  private config: MCPServerConfig;
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private listenController?: AbortController;
+
+  constructor(config: MCPServerConfig) {
+    if (!config.endpoint) {
+      throw new Error(`Missing endpoint for MCP server: ${config.id}`);
+    }
+    this.config = config;
+  }
+
+  private get endpoint(): string {
+    return this.config.endpoint as string;
+  }
+
+  async start(): Promise<void> {
+    // HTTP 传输无需预先建立连接
+  }
+
+  /**
+   * 构建请求头（会话 ID 与认证信息）
+   */
+  private async buildHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+    };
+
+    // 添加 session ID
+    if (this.sessionId) {
+      headers['mcp-session-id'] = this.sessionId;
+    }
+
+    // 握手完成后的请求需携带协商的协议版本
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+
+    // 添加认证头
+    return { ...headers, ...await buildAuthHeaders(this.config) };
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  /**
+   * 逐条分发 JSON 负载中的消息（支持批量数组）
+   */
+  private dispatch(payload: MCPMessage | MCPMessage[], relatedRequestId?: string | number): MCPMessage[] {
+    const messages = Array.isArray(payload) ? payload : [payload];
+    for (const message of messages) {
+      this.onMessage?.(message, relatedRequestId);
+    }
+    return messages;
+  }
+
+  /**
+   * 读取 SSE 流，每条消息到达时立即分发
+   *
+   * POST 响应流中的消息标记所属请求，服务器在处理该请求期间发起的请求据此归属到对应调用
+   */
+  private async consumeEventStream(
+    body: ReadableStream<Uint8Array>,
+    onDispatched?: (messages: MCPMessage[]) => void,
+    relatedRequestId?: string | number
+  ): Promise<void> {
+    for await (const event of readSSEEvents(body)) {
+      if (event.event !== 'message' || !event.data.trim()) {
+        continue;
+      }
+      try {
+        const messages = this.dispatch(JSON.parse(event.data), relatedRequestId);
+        onDispatched?.(messages);
+      } catch (e) {
+        // 如果不是 JSON，跳过
+        if (e instanceof SyntaxError) continue;
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * 发送 JSON-RPC 消息，并逐条分发服务器返回的消息
+   *
+   * 响应可能是单个 JSON，也可能是 SSE 流；SSE 流中的每条消息到达时立即处理，
+   * 因此同一流中穿插的通知不会丢失，也不必等待服务器关闭流
+   */
+  async send(message: MCPMessage, signal?: AbortSignal): Promise<void> {
+    const sentSessionId = this.sessionId;
+    const response = await this.post(message, signal);
+
+    // 携带会话 ID 的请求返回 404：服务器已丢弃会话（过期或重启）
+    if (response.status === 404 && sentSessionId) {
+      // 并发请求可能已触发过重置
+      if (this.sessionId === sentSessionId) {
+        this.resetSession();
+      }
+      throw new MCPSessionExpiredError(`MCP session expired: ${this.config.id}`);
+    }
+
+    if (!response.ok) {
+      throw new MCPHttpError(response.status, response.statusText);
+    }
+
+    // 保存服务器分配的 session ID
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    // 请求的响应必须出现在本次 POST 的返回中
+    const requestId = 'method' in message && 'id' in message ? message.id : undefined;
+    let responded = requestId === undefined;
+    const markResponded = (messages: MCPMessage[]) => {
+      if (!responded) {
+        responded = messages.some(m => 'id' in m && !('method' in m) && m.id === requestId);
+      }
+    };
+
+    // 通知和响应消息：服务器返回 202 Accepted，无消息体
+    if (response.status !== 202 && response.body) {
+      const contentType = response.headers.get('content-type') || '';
+
+      // 检查是否是 SSE 响应
+      if (contentType.includes('text/event-stream')) {
+        await this.consumeEventStream(response.body, markResponded, requestId);
+      } else {
+        // 普通 JSON 响应
+        const text = await response.text();
+        if (text.trim()) {
+          markResponded(this.dispatch(JSON.parse(text), requestId));
+        }
+      }
+    }
+
+    if (!responded) {
+      throw new Error(`No response received for MCP request: ${(message as { method: string }).method}`);
+    }
+  }
+
+  /**
+   * POST 消息；访问令牌被拒绝（401）时先尝试刷新令牌并重发一次
+   */
+  private async post(message: MCPMessage, signal?: AbortSignal): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const headers = await this.buildHeaders();
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(message),
+        signal,
+      });
+
+      if (response.status !== 401) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      recordAuthChallenge(this.config.id, response.headers.get('www-authenticate'));
+      if (attempt > 0 || !headers['Authorization'] || !(await refreshOAuthAccessToken(this.config.id))) {
+        throw new MCPUnauthorizedError(this.config.id);
+      }
+    }
+  }
+
+  /**
+   * 打开独立的 GET SSE 流，接收不属于任何请求的服务器通知
+   *
+   * 服务器不支持时（405 等）静默放弃，仅依赖请求响应流中的通知
+   */
+  listen(): void {
+    if (this.listenController) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.listenController = controller;
+
+    (async () => {
+      const headers = await this.buildHeaders();
+      delete headers['Content-Type'];
+      headers['Accept'] = 'text/event-stream';
+
+      const response = await fetch(this.endpoint, {
+        method: 'GET',
+        headers,
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        console.log(`[MCP] Server ${this.config.id} does not offer a notification stream (${response.status})`);
+        return;
+      }
+
+      await this.consumeEventStream(response.body);
+    })()
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          console.error(`[MCP] Notification stream error (${this.config.id}):`, error);
+        }
+      })
+      .finally(() => {
+        if (this.listenController === controller) {
+          this.listenController = undefined;
+        }
+      });
+  }
+
+  /**
+   * 清除会话状态（通知流属于旧会话，一并关闭；协议版本需在重新初始化时重新协商）
+   */
+  private resetSession(): void {
+    this.listenController?.abort();
+    this.listenController = undefined;
+    this.sessionId = undefined;
+    this.protocolVersion = undefined;
+  }
+
+  /**
+   * 关闭连接：通过 DELETE 通知服务器终止会话
+   */
+  async close(): Promise<void> {
+    const sessionId = this.sessionId;
+    const headers = await this.buildHeaders();
+    this.resetSession();
+
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      const response = await fetch(this.endpoint, { method: 'DELETE', headers });
+      // 405 表示服务器不允许客户端主动终止会话
+      if (!response.ok && response.status !== 405) {
+        console.warn(`[MCP] Failed to terminate session (${this.config.id}): ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`[MCP] Failed to terminate session (${this.config.id}):`, error);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * 提交用户交互结果（浏览器端）
+ *
+ * 对话流中等待的决定（工具调用确认、采样确认等）通过 /api/mcp/interactions 提交
+ */
+
+export async function submitMCPInteraction(id: string, response: unknown): Promise<void> {
+  const res = await fetch('/api/mcp/interactions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ id, response }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `提交失败: ${res.status}`);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * 等待用户交互（仅服务器端）
+ *
+ * 对话流需要用户做决定时（如确认工具调用），先通过流把请求发给浏览器，
+ * 再等待浏览器调用 /api/mcp/interactions 提交结果
+ */
+
+import crypto from 'crypto';
+
+// 默认等待时间
+const DEFAULT_INTERACTION_TIMEOUT_MS = 5 * 60_000;
+
+interface PendingInteraction {
+  resolve: (value: unknown) => void;
+}
+
+// 保存在 globalThis 上，对话路由与交互路由共享
+const globalForInteractions = globalThis as unknown as { mcpInteractions?: Map<string, PendingInteraction> };
+const pendingInteractions: Map<string, PendingInteraction> = globalForInteractions.mcpInteractions ??= new Map();
+
+/**
+ * 生成交互 ID
+ */
+export function createInteractionId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 等待浏览器提交交互结果；超时或对话被停止时失败
+ */
+export function waitForInteraction<T>(
+  id: string,
+  options: { signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<T> {
+  const { signal, timeoutMs = DEFAULT_INTERACTION_TIMEOUT_MS } = options;
+
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      pendingInteractions.delete(id);
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason ?? new Error('Interaction cancelled'));
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`等待用户确认超时（${Math.round(timeoutMs / 1000)} 秒）`));
+    }, timeoutMs);
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pendingInteractions.set(id, {
+      resolve: value => {
+        cleanup();
+        resolve(value as T);
+      },
+    });
+  });
+}
+
+/**
+ * 提交交互结果，返回是否有对应的等待者
+ */
+export function resolveInteraction(id: string, value: unknown): boolean {
+  const pending = pendingInteractions.get(id);
+  if (!pending) {
+    return false;
+  }
+  pending.resolve(value);
+  return true;
+}
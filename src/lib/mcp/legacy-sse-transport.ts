@@ -0,0 +1,192 @@
+/**
+ * 旧版 HTTP+SSE 传输（协议版本 2024-11-05）
+ *
+ * 客户端先通过 GET 打开 SSE 事件流，服务器以 endpoint 事件告知消息地址；
+ * 之后客户端把消息 POST 到该地址，所有响应和通知都从事件流返回
+ */
+
+import { MCPServerConfig, MCPMessage } from './types';
+import { MCPTransport, MCPHttpError, MCPSessionExpiredError, MCPUnauthorizedError, buildAuthHeaders } from './transport';
+import { recordAuthChallenge } from './oauth';
+import { readSSEEvents } from './sse';
+
+// 等待 endpoint 事件的超时时间
+const ENDPOINT_TIMEOUT_MS = 10_000;
+
+export class LegacySSETransport implements MCPTransport {
+  onMessage?: (message: MCPMessage) => void;
+  onClose?: (error: Error) => void;
+  onRestart?: () => void;
+
+  private config: MCPServerConfig;
+  private messageEndpoint?: string;
+  private streamController?: AbortController;
+  private starting?: Promise<void>;
+
+  constructor(config: MCPServerConfig) {
+    if (!config.endpoint) {
+      throw new Error(`Missing endpoint for MCP server: ${config.id}`);
+    }
+    this.config = config;
+  }
+
+  private get endpoint(): string {
+    return this.config.endpoint as string;
+  }
+
+  /**
+   * 打开事件流并等待 endpoint 事件（已连接时直接返回）
+   */
+  start(): Promise<void> {
+    if (this.messageEndpoint) {
+      return Promise.resolve();
+    }
+    if (!this.starting) {
+      this.starting = this.openStream().finally(() => {
+        this.starting = undefined;
+      });
+    }
+    return this.starting;
+  }
+
+  private openStream(): Promise<void> {
+    const controller = new AbortController();
+    this.streamController = controller;
+
+    return new Promise<void>((resolve, reject) => {
+      let connected = false;
+
+      const timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out waiting for endpoint event from MCP server: ${this.config.id}`));
+      }, ENDPOINT_TIMEOUT_MS);
+
+      (async () => {
+        const response = await fetch(this.endpoint, {
+          method: 'GET',
+          headers: {
+            'Accept': 'text/event-stream',
+            ...await buildAuthHeaders(this.config),
+          },
+          signal: controller.signal,
+        });
+
+        if (response.status === 401) {
+          recordAuthChallenge(this.config.id, response.headers.get('www-authenticate'));
+          throw new MCPUnauthorizedError(this.config.id);
+        }
+
+        if (!response.ok || !response.body) {
+          throw new MCPHttpError(response.status, response.statusText);
+        }
+
+        for await (const event of readSSEEvents(response.body)) {
+          if (event.event === 'endpoint') {
+            this.messageEndpoint = this.resolveMessageEndpoint(event.data.trim());
+            connected = true;
+            clearTimeout(timer);
+            resolve();
+            continue;
+          }
+
+          if (event.event !== 'message' || !event.data.trim()) {
+            continue;
+          }
+
+          try {
+            const payload = JSON.parse(event.data) as MCPMessage | MCPMessage[];
+            const messages = Array.isArray(payload) ? payload : [payload];
+            for (const message of messages) {
+              this.onMessage?.(message);
+            }
+          } catch {
+            // 如果不是 JSON，跳过
+            continue;
+          }
+        }
+
+        throw new Error(`MCP event stream closed by server: ${this.config.id}`);
+      })()
+        .catch(error => {
+          clearTimeout(timer);
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          const streamError = error instanceof Error ? error : new Error(String(error));
+          if (!connected) {
+            reject(streamError);
+            return;
+          }
+
+          // 已建立的连接断开：进行中的请求无法再收到响应
+          console.error(`[MCP] Event stream error (${this.config.id}):`, streamError);
+          this.messageEndpoint = undefined;
+          this.onClose?.(streamError);
+        });
+    });
+  }
+
+  /**
+   * 解析 endpoint 事件中的地址（可能是相对路径），并要求与服务器同源
+   */
+  private resolveMessageEndpoint(data: string): string {
+    const url = new URL(data, this.endpoint);
+    if (url.origin !== new URL(this.endpoint).origin) {
+      throw new Error(`MCP server ${this.config.id} announced a cross-origin endpoint: ${url.origin}`);
+    }
+    return url.toString();
+  }
+
+  /**
+   * POST 消息到 endpoint 地址；服务器通常返回 202，响应经事件流送达
+   *
+   * 事件流断开后会话随之失效，需由客户端重新初始化
+   */
+  async send(message: MCPMessage, signal?: AbortSignal): Promise<void> {
+    if (this.starting) {
+      await this.starting;
+    }
+    if (!this.messageEndpoint) {
+      throw new MCPSessionExpiredError(`MCP event stream is not connected: ${this.config.id}`);
+    }
+
+    const messageEndpoint = this.messageEndpoint;
+    const response = await fetch(messageEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...await buildAuthHeaders(this.config),
+      },
+      body: JSON.stringify(message),
+      signal,
+    });
+
+    // 服务器已不认识该会话（如服务器重启）
+    if (response.status === 404) {
+      if (this.messageEndpoint === messageEndpoint) {
+        this.streamController?.abort();
+        this.messageEndpoint = undefined;
+      }
+      throw new MCPSessionExpiredError(`MCP session expired: ${this.config.id}`);
+    }
+
+    if (response.status === 401) {
+      recordAuthChallenge(this.config.id, response.headers.get('www-authenticate'));
+      throw new MCPUnauthorizedError(this.config.id);
+    }
+
+    if (!response.ok) {
+      throw new MCPHttpError(response.status, response.statusText);
+    }
+
+    // 丢弃响应体（通常为 "Accepted"）
+    await response.body?.cancel();
+  }
+
+  async close(): Promise<void> {
+    this.streamController?.abort();
+    this.streamController = undefined;
+    this.messageEndpoint = undefined;
+  }
+}
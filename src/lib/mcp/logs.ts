@@ -0,0 +1,96 @@
+/**
+ * MCP 服务器日志
+ *
+ * 服务器通过 notifications/message 发送的日志按服务器保存在有界环形缓冲区中，
+ * 浏览器端日志面板与服务器端共用级别定义和格式化
+ */
+
+import { MCPLogEntry, MCPLoggingLevel, MCPLoggingMessageNotificationParams } from './types';
+
+// 由低到高排列
+export const MCP_LOGGING_LEVELS: MCPLoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+/**
+ * 检查是否为合法的日志级别
+ */
+export function isMCPLoggingLevel(value: unknown): value is MCPLoggingLevel {
+  return MCP_LOGGING_LEVELS.includes(value as MCPLoggingLevel);
+}
+
+/**
+ * 将日志数据转换为文本：字符串原样返回，其他值序列化为 JSON
+ */
+export function formatMCPLogData(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  try {
+    return JSON.stringify(data, null, 2) ?? String(data);
+  } catch {
+    return String(data);
+  }
+}
+
+/**
+ * 有界环形缓冲区：写满后覆盖最旧的条目
+ */
+export class MCPLogBuffer {
+  private entries: (MCPLogEntry | undefined)[];
+  private next = 0;
+  private size = 0;
+  private seq = 0;
+
+  constructor(private capacity: number) {
+    this.entries = new Array(capacity);
+  }
+
+  /**
+   * 记录一条日志，返回带序号和时间的条目
+   */
+  push(message: MCPLoggingMessageNotificationParams): MCPLogEntry {
+    const entry: MCPLogEntry = {
+      seq: ++this.seq,
+      timestamp: new Date().toISOString(),
+      level: isMCPLoggingLevel(message.level) ? message.level : 'info',
+      logger: typeof message.logger === 'string' ? message.logger : undefined,
+      data: message.data,
+    };
+    this.entries[this.next] = entry;
+    this.next = (this.next + 1) % this.capacity;
+    this.size = Math.min(this.size + 1, this.capacity);
+    return entry;
+  }
+
+  /**
+   * 按时间顺序列出日志，afterSeq 用于增量拉取
+   */
+  list(afterSeq = 0): MCPLogEntry[] {
+    const start = (this.next - this.size + this.capacity) % this.capacity;
+    const result: MCPLogEntry[] = [];
+    for (let i = 0; i < this.size; i++) {
+      const entry = this.entries[(start + i) % this.capacity];
+      if (entry && entry.seq > afterSeq) {
+        result.push(entry);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 清空日志（序号继续递增，增量拉取不会错过新日志）
+   */
+  clear(): void {
+    this.entries = new Array(this.capacity);
+    this.next = 0;
+    this.size = 0;
+  }
+}
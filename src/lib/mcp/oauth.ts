@@ -0,0 +1,481 @@
+/**
+ * MCP OAuth 2.1 授权（仅服务器端）
+ *
+ * 按 MCP 授权规范实现授权码流程：
+ * - 从 401 响应的 WWW-Authenticate 头或 well-known 地址发现受保护资源元数据（RFC 9728）
+ * - 发现授权服务器元数据（RFC 8414 / OpenID Connect Discovery）
+ * - 动态客户端注册（RFC 7591），或使用配置中预先注册的 clientId
+ * - PKCE（S256），并通过 resource 参数绑定目标服务器（RFC 8707）
+ * - 令牌保存在服务器端，过期前自动刷新
+ */
+
+import crypto from 'crypto';
+import { MCPServerConfig } from './types';
+import { readJSONFile, writeJSONFile } from './storage';
+
+const STORE_FILE = 'mcp-oauth.json';
+
+// 授权请求的有效期
+const PENDING_TTL_MS = 10 * 60_000;
+
+// 提前刷新令牌的时间余量
+const EXPIRY_MARGIN_MS = 60_000;
+
+// 授权服务器元数据（RFC 8414）
+interface AuthorizationServerMetadata {
+  issuer?: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+// 受保护资源元数据（RFC 9728）
+interface ProtectedResourceMetadata {
+  resource?: string;
+  authorization_servers?: string[];
+  scopes_supported?: string[];
+}
+
+// 令牌端点响应
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+// 已注册的客户端
+interface OAuthClientInfo {
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  issuer: string;
+}
+
+// 保存的令牌
+interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+  tokenEndpoint: string;
+  clientId: string;
+  clientSecret?: string;
+  resource: string;
+}
+
+// 进行中的授权请求（以 state 参数为键）
+interface PendingAuthorization {
+  serverId: string;
+  codeVerifier: string;
+  redirectUri: string;
+  tokenEndpoint: string;
+  clientId: string;
+  clientSecret?: string;
+  resource: string;
+  createdAt: number;
+}
+
+interface OAuthStore {
+  clients: Record<string, OAuthClientInfo>;
+  tokens: Record<string, OAuthTokens>;
+}
+
+interface OAuthState {
+  store?: Promise<OAuthStore>;
+  pending: Map<string, PendingAuthorization>;
+  // 服务器最近一次 401 响应的 WWW-Authenticate 头
+  challenges: Map<string, string>;
+  refreshing: Map<string, Promise<OAuthTokens | undefined>>;
+}
+
+// 保存在 globalThis 上，各路由共享同一份授权状态
+const globalForOAuth = globalThis as unknown as { mcpOAuthState?: OAuthState };
+const oauthState: OAuthState = globalForOAuth.mcpOAuthState ??= {
+  pending: new Map(),
+  challenges: new Map(),
+  refreshing: new Map(),
+};
+
+function loadStore(): Promise<OAuthStore> {
+  oauthState.store ??= readJSONFile<OAuthStore>(STORE_FILE, { clients: {}, tokens: {} });
+  return oauthState.store;
+}
+
+async function saveStore(): Promise<void> {
+  await writeJSONFile(STORE_FILE, await loadStore());
+}
+
+/**
+ * 授权相关地址必须使用 HTTPS（本机地址除外，便于本地测试）
+ */
+function assertSecureUrl(value: string): void {
+  const url = new URL(value);
+  const isLoopback = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLoopback)) {
+    throw new Error(`OAuth endpoint must use HTTPS: ${value}`);
+  }
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+/**
+ * 解析 WWW-Authenticate 头中的 Bearer 参数
+ */
+export function parseWWWAuthenticate(header: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const pattern = /([a-zA-Z_][\w-]*)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(header)) !== null) {
+    params[match[1]] = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3];
+  }
+  return params;
+}
+
+/**
+ * 记录服务器返回的认证质询，供后续发起授权时发现元数据
+ */
+export function recordAuthChallenge(serverId: string, header: string | null): void {
+  if (header) {
+    oauthState.challenges.set(serverId, header);
+  }
+}
+
+/**
+ * 依次尝试候选地址，返回第一个成功的 JSON 响应
+ */
+async function fetchFirstJSON<T>(urls: string[]): Promise<T | undefined> {
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+      if (response.ok) {
+        return await response.json() as T;
+      }
+    } catch (error) {
+      console.warn(`[MCP:oauth] Metadata request failed (${url}):`, error);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 发现受保护资源元数据：优先使用 WWW-Authenticate 中的 resource_metadata，
+ * 否则按路径和根路径尝试 well-known 地址
+ */
+async function discoverProtectedResource(endpoint: string, challenge?: string): Promise<ProtectedResourceMetadata | undefined> {
+  const url = new URL(endpoint);
+  const candidates: string[] = [];
+
+  const resourceMetadata = challenge ? parseWWWAuthenticate(challenge).resource_metadata : undefined;
+  if (resourceMetadata) {
+    candidates.push(new URL(resourceMetadata, endpoint).toString());
+  }
+  if (url.pathname !== '/') {
+    candidates.push(`${url.origin}/.well-known/oauth-protected-resource${url.pathname.replace(/\/$/, '')}`);
+  }
+  candidates.push(`${url.origin}/.well-known/oauth-protected-resource`);
+
+  return fetchFirstJSON<ProtectedResourceMetadata>(candidates);
+}
+
+/**
+ * 发现授权服务器元数据；都不可用时退回到规范早期版本约定的默认端点
+ */
+async function discoverAuthorizationServer(issuer: string): Promise<AuthorizationServerMetadata> {
+  const url = new URL(issuer);
+  const path = url.pathname.replace(/\/$/, '');
+  const candidates = path
+    ? [
+      `${url.origin}/.well-known/oauth-authorization-server${path}`,
+      `${url.origin}/.well-known/openid-configuration${path}`,
+      `${url.origin}${path}/.well-known/openid-configuration`,
+    ]
+    : [
+      `${url.origin}/.well-known/oauth-authorization-server`,
+      `${url.origin}/.well-known/openid-configuration`,
+    ];
+
+  const metadata = await fetchFirstJSON<AuthorizationServerMetadata>(candidates);
+  if (metadata) {
+    return metadata;
+  }
+
+  console.log(`[MCP:oauth] No authorization server metadata for ${issuer}, using default endpoints`);
+  return {
+    authorization_endpoint: `${url.origin}/authorize`,
+    token_endpoint: `${url.origin}/token`,
+    registration_endpoint: `${url.origin}/register`,
+  };
+}
+
+/**
+ * 获取 OAuth 客户端：优先使用配置中的预注册客户端，其次复用或动态注册
+ */
+async function getClient(
+  config: MCPServerConfig,
+  issuer: string,
+  metadata: AuthorizationServerMetadata,
+  redirectUri: string
+): Promise<OAuthClientInfo> {
+  if (config.auth?.clientId) {
+    return { clientId: config.auth.clientId, clientSecret: config.auth.clientSecret, redirectUri, issuer };
+  }
+
+  const store = await loadStore();
+  const existing = store.clients[config.id];
+  if (existing && existing.issuer === issuer && existing.redirectUri === redirectUri) {
+    return existing;
+  }
+
+  if (!metadata.registration_endpoint) {
+    throw new Error(`Authorization server for ${config.id} does not support dynamic client registration; configure auth.clientId`);
+  }
+  assertSecureUrl(metadata.registration_endpoint);
+
+  const response = await fetch(metadata.registration_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify({
+      client_name: 'Agentic AI App',
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Dynamic client registration failed: ${response.status} ${await response.text()}`);
+  }
+
+  const registration = await response.json() as { client_id: string; client_secret?: string };
+  const client: OAuthClientInfo = {
+    clientId: registration.client_id,
+    clientSecret: registration.client_secret,
+    redirectUri,
+    issuer,
+  };
+  store.clients[config.id] = client;
+  await saveStore();
+
+  console.log(`[MCP:oauth] Registered client for ${config.id}: ${client.clientId}`);
+  return client;
+}
+
+/**
+ * 发起授权：完成元数据发现与客户端注册，返回用户需要访问的授权地址
+ */
+export async function startAuthorization(config: MCPServerConfig, redirectUri: string): Promise<string> {
+  if (!config.endpoint) {
+    throw new Error(`OAuth is only supported for HTTP MCP servers: ${config.id}`);
+  }
+
+  const resourceMetadata = await discoverProtectedResource(config.endpoint, oauthState.challenges.get(config.id));
+  const issuer = resourceMetadata?.authorization_servers?.[0] ?? new URL(config.endpoint).origin;
+  assertSecureUrl(issuer);
+
+  const metadata = await discoverAuthorizationServer(issuer);
+  assertSecureUrl(metadata.authorization_endpoint);
+  assertSecureUrl(metadata.token_endpoint);
+
+  if (metadata.code_challenge_methods_supported && !metadata.code_challenge_methods_supported.includes('S256')) {
+    throw new Error(`Authorization server for ${config.id} does not support PKCE S256`);
+  }
+
+  const client = await getClient(config, issuer, metadata, redirectUri);
+
+  // 资源标识：受保护资源元数据声明的 resource，或服务器地址本身
+  const endpointUrl = new URL(config.endpoint);
+  endpointUrl.hash = '';
+  const resource = resourceMetadata?.resource ?? endpointUrl.toString();
+
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+  const state = base64url(crypto.randomBytes(16));
+
+  // 清理过期的授权请求
+  const now = Date.now();
+  for (const [key, pending] of oauthState.pending) {
+    if (now - pending.createdAt > PENDING_TTL_MS) {
+      oauthState.pending.delete(key);
+    }
+  }
+  oauthState.pending.set(state, {
+    serverId: config.id,
+    codeVerifier,
+    redirectUri,
+    tokenEndpoint: metadata.token_endpoint,
+    clientId: client.clientId,
+    clientSecret: client.clientSecret,
+    resource,
+    createdAt: now,
+  });
+
+  const scope = config.auth?.scope
+    ?? (oauthState.challenges.has(config.id) ? parseWWWAuthenticate(oauthState.challenges.get(config.id)!).scope : undefined)
+    ?? resourceMetadata?.scopes_supported?.join(' ');
+
+  const authorizationUrl = new URL(metadata.authorization_endpoint);
+  authorizationUrl.searchParams.set('response_type', 'code');
+  authorizationUrl.searchParams.set('client_id', client.clientId);
+  authorizationUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizationUrl.searchParams.set('code_challenge', codeChallenge);
+  authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+  authorizationUrl.searchParams.set('state', state);
+  authorizationUrl.searchParams.set('resource', resource);
+  if (scope) {
+    authorizationUrl.searchParams.set('scope', scope);
+  }
+
+  return authorizationUrl.toString();
+}
+
+/**
+ * 请求令牌端点
+ */
+async function requestToken(
+  tokenEndpoint: string,
+  params: Record<string, string>,
+  clientSecret?: string
+): Promise<TokenResponse> {
+  const body = new URLSearchParams(params);
+  if (clientSecret) {
+    body.set('client_secret', clientSecret);
+  }
+
+  const response = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`Token request failed: ${response.status} ${await response.text()}`);
+  }
+
+  const token = await response.json() as TokenResponse;
+  if (!token.access_token) {
+    throw new Error('Token response is missing access_token');
+  }
+  return token;
+}
+
+function toStoredTokens(
+  token: TokenResponse,
+  source: Pick<OAuthTokens, 'tokenEndpoint' | 'clientId' | 'clientSecret' | 'resource'>,
+  previousRefreshToken?: string
+): OAuthTokens {
+  return {
+    ...source,
+    accessToken: token.access_token,
+    // 授权服务器可能不轮换刷新令牌
+    refreshToken: token.refresh_token ?? previousRefreshToken,
+    expiresAt: token.expires_in ? Date.now() + token.expires_in * 1000 : undefined,
+  };
+}
+
+/**
+ * 处理授权回调：用授权码换取令牌并保存，返回对应的服务器 ID
+ */
+export async function completeAuthorization(state: string, code: string): Promise<string> {
+  const pending = oauthState.pending.get(state);
+  oauthState.pending.delete(state);
+  if (!pending || Date.now() - pending.createdAt > PENDING_TTL_MS) {
+    throw new Error('Authorization request is invalid or has expired');
+  }
+
+  const token = await requestToken(pending.tokenEndpoint, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: pending.redirectUri,
+    client_id: pending.clientId,
+    code_verifier: pending.codeVerifier,
+    resource: pending.resource,
+  }, pending.clientSecret);
+
+  const store = await loadStore();
+  store.tokens[pending.serverId] = toStoredTokens(token, pending);
+  await saveStore();
+  oauthState.challenges.delete(pending.serverId);
+
+  console.log(`[MCP:oauth] Authorized ${pending.serverId}`);
+  return pending.serverId;
+}
+
+/**
+ * 使用刷新令牌换取新的访问令牌（并发调用共享同一次刷新），失败时清除令牌
+ */
+function refreshTokens(serverId: string, tokens: OAuthTokens): Promise<OAuthTokens | undefined> {
+  let refreshing = oauthState.refreshing.get(serverId);
+  if (!refreshing) {
+    refreshing = (async () => {
+      const store = await loadStore();
+      try {
+        if (!tokens.refreshToken) {
+          throw new Error('No refresh token');
+        }
+        const token = await requestToken(tokens.tokenEndpoint, {
+          grant_type: 'refresh_token',
+          refresh_token: tokens.refreshToken,
+          client_id: tokens.clientId,
+          resource: tokens.resource,
+        }, tokens.clientSecret);
+        store.tokens[serverId] = toStoredTokens(token, tokens, tokens.refreshToken);
+        console.log(`[MCP:oauth] Refreshed access token for ${serverId}`);
+        return store.tokens[serverId];
+      } catch (error) {
+        console.warn(`[MCP:oauth] Failed to refresh token for ${serverId}, re-authorization required:`, error);
+        delete store.tokens[serverId];
+        return undefined;
+      } finally {
+        await saveStore();
+      }
+    })().finally(() => {
+      oauthState.refreshing.delete(serverId);
+    });
+    oauthState.refreshing.set(serverId, refreshing);
+  }
+  return refreshing;
+}
+
+/**
+ * 获取服务器的访问令牌（即将过期时先刷新）；未授权时返回 undefined
+ */
+export async function getOAuthAccessToken(serverId: string): Promise<string | undefined> {
+  const tokens = (await loadStore()).tokens[serverId];
+  if (!tokens) {
+    return undefined;
+  }
+
+  if (tokens.expiresAt && tokens.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+    return (await refreshTokens(serverId, tokens))?.accessToken;
+  }
+  return tokens.accessToken;
+}
+
+/**
+ * 访问令牌被服务器拒绝时强制刷新，返回是否获得了新令牌
+ */
+export async function refreshOAuthAccessToken(serverId: string): Promise<boolean> {
+  const tokens = (await loadStore()).tokens[serverId];
+  if (!tokens) {
+    return false;
+  }
+  return !!(await refreshTokens(serverId, tokens));
+}
+
+/**
+ * 清除服务器的令牌与注册信息
+ */
+export async function clearOAuthData(serverId: string): Promise<void> {
+  const store = await loadStore();
+  delete store.tokens[serverId];
+  delete store.clients[serverId];
+  oauthState.challenges.delete(serverId);
+  await saveStore();
+}
@@ -0,0 +1,380 @@
+/**
+ * MCP 连接池（仅服务器端）
+ *
+ * 在 MCPClientManager 之上维护进程级共享的客户端：
+ * - 所有 API 路由复用同一连接，侧边栏连接后对话路由无需重新初始化
+ * - 空闲连接超时回收（有资源订阅的除外），超过连接上限时回收最久未使用的空闲连接
+ * - 定期 ping 检查连接健康，失败的连接被移除并在下次使用时重建
+ * - 记录每个服务器的连接与调用统计
+ * - 广播工具列表与连接状态变化，供 /api/mcp/events 推送到浏览器
+ * - 根目录变化时通知所有连接（roots/list 由发起工具调用的对话按其根目录响应）
+ * - 按服务器保存 notifications/message 日志，重连后恢复设置的日志级别
+ */
+
+import { MCPClient, MCPClientManager, MCPCallToolOptions } from './client';
+import { resolveMCPServer } from './registry';
+import { MCPLogBuffer } from './logs';
+import { MCPConnectionState, MCPLogEntry, MCPLoggingLevel, MCPLoggingMessageNotificationParams, MCPPoolEvent, MCPToolCallResult } from './types';
+
+// 最大连接数（软上限：无空闲连接可回收时仍允许新建）
+const MAX_CONNECTIONS = 16;
+
+// 空闲连接的回收时间
+const IDLE_TIMEOUT_MS = 10 * 60_000;
+
+// 健康检查间隔
+const HEALTH_CHECK_INTERVAL_MS = 60_000;
+
+// 每个服务器保留的日志条数
+const MAX_LOG_ENTRIES = 500;
+
+/**
+ * 单个服务器的连接统计
+ */
+export interface MCPPoolServerStats {
+  serverId: string;
+  state: MCPConnectionState;
+  // 当前正在使用该连接的请求数
+  leases: number;
+  connects: number;
+  connectFailures: number;
+  toolCalls: number;
+  toolErrors: number;
+  averageLatencyMs: number;
+  lastPingMs?: number;
+  connectedAt?: string;
+  lastUsedAt?: string;
+  lastError?: string;
+}
+
+export type MCPPoolEventListener = (event: MCPPoolEvent) => void;
+
+interface PoolEntry {
+  leases: number;
+  connects: number;
+  connectFailures: number;
+  toolCalls: number;
+  toolErrors: number;
+  totalLatencyMs: number;
+  lastPingMs?: number;
+  connectedAt?: Date;
+  lastUsedAt: Date;
+  lastError?: string;
+  logs: MCPLogBuffer;
+  // 用户设置的日志级别，重连后重新发送
+  logLevel?: MCPLoggingLevel;
+}
+
+export class MCPConnectionPool extends MCPClientManager {
+  private entries: Map<string, PoolEntry> = new Map();
+  private connecting: Map<string, Promise<MCPClient>> = new Map();
+  private maintenanceTimer?: ReturnType<typeof setInterval>;
+  private eventListeners: Set<MCPPoolEventListener> = new Set();
+
+  /**
+   * 监听连接池事件，返回取消监听的函数
+   */
+  onEvent(listener: MCPPoolEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  private emit(event: MCPPoolEvent): void {
+    for (const listener of this.eventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[MCP:pool] Event listener error:', error);
+      }
+    }
+  }
+
+  private getEntry(serverId: string): PoolEntry {
+    let entry = this.entries.get(serverId);
+    if (!entry) {
+      entry = {
+        leases: 0,
+        connects: 0,
+        connectFailures: 0,
+        toolCalls: 0,
+        toolErrors: 0,
+        totalLatencyMs: 0,
+        lastUsedAt: new Date(),
+        logs: new MCPLogBuffer(MAX_LOG_ENTRIES),
+      };
+      this.entries.set(serverId, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * 获取已初始化的客户端并登记使用，用完后必须调用 release
+   *
+   * 并发获取同一服务器时共享同一次初始化；正在重连的客户端等待重连完成。
+   * 只有失败或已断开、且没有请求在使用的客户端才会被替换，
+   * 仍在使用中的客户端原地重连，避免中断其他请求的调用
+   */
+  async acquire(serverId: string): Promise<MCPClient> {
+    this.startMaintenance();
+
+    let client = this.getClient(serverId);
+    const connecting = this.connecting.get(serverId);
+    if (connecting) {
+      client = await connecting;
+    } else if (!client) {
+      client = await this.connectShared(serverId);
+    } else if (!client.isInitialized()) {
+      const state = client.getState();
+      const leases = this.entries.get(serverId)?.leases ?? 0;
+      if ((state === 'failed' || state === 'disconnected') && leases === 0) {
+        client = await this.connectShared(serverId);
+      } else {
+        await client.reconnect();
+      }
+    }
+
+    const entry = this.getEntry(serverId);
+    entry.leases++;
+    entry.lastUsedAt = new Date();
+    return client;
+  }
+
+  /**
+   * 结束对连接的使用
+   */
+  release(serverId: string): void {
+    const entry = this.entries.get(serverId);
+    if (entry && entry.leases > 0) {
+      entry.leases--;
+      entry.lastUsedAt = new Date();
+    }
+  }
+
+  /**
+   * 获取连接执行操作，完成后自动释放
+   */
+  async withClient<T>(serverId: string, fn: (client: MCPClient) => Promise<T>): Promise<T> {
+    const client = await this.acquire(serverId);
+    try {
+      return await fn(client);
+    } finally {
+      this.release(serverId);
+    }
+  }
+
+  /**
+   * 建立新连接（并发调用共享同一次连接）
+   */
+  private connectShared(serverId: string): Promise<MCPClient> {
+    let connecting = this.connecting.get(serverId);
+    if (!connecting) {
+      connecting = this.connect(serverId).finally(() => {
+        this.connecting.delete(serverId);
+      });
+      this.connecting.set(serverId, connecting);
+    }
+    return connecting;
+  }
+
+  private async connect(serverId: string): Promise<MCPClient> {
+    const config = await resolveMCPServer(serverId);
+    if (!config) {
+      throw new Error(`Server not found: ${serverId}`);
+    }
+
+    this.ensureCapacity(serverId);
+
+    const entry = this.getEntry(serverId);
+    const client = this.addServer(config);
+
+    // 不属于任何对话的工具调用时，不暴露任何目录
+    client.handleRequest('roots/list', async () => ({ roots: [] }));
+    client.onNotification('notifications/message', notification => {
+      const message = notification.params as MCPLoggingMessageNotificationParams | undefined;
+      if (message) entry.logs.push(message);
+    });
+    client.onToolsChanged(tools => this.emit({ type: 'tools_changed', serverId, tools }));
+    // 回收空闲连接属于内部行为，不广播 disconnected / connecting
+    client.onStateChange(state => {
+      if (state === 'reconnecting' || state === 'connected' || state === 'failed') {
+        this.emit({ type: 'mcp_connection', serverId, state });
+      }
+    });
+
+    try {
+      await this.connectServer(serverId);
+    } catch (error) {
+      entry.connectFailures++;
+      entry.lastError = error instanceof Error ? error.message : String(error);
+      this.removeServer(serverId);
+      throw error;
+    }
+
+    entry.connects++;
+    entry.connectedAt = new Date();
+    entry.lastError = undefined;
+    if (entry.logLevel && client.hasCapability('logging')) {
+      client.setLoggingLevel(entry.logLevel).catch(error => {
+        console.warn(`[MCP:pool] Failed to restore log level for ${serverId}:`, error);
+      });
+    }
+    console.log(`[MCP:pool] Connected ${serverId} (${this.clients.size} open connections)`);
+    return client;
+  }
+
+  /**
+   * 达到连接上限时回收最久未使用的空闲连接
+   */
+  private ensureCapacity(incomingServerId: string): void {
+    if (this.clients.size < MAX_CONNECTIONS || this.clients.has(incomingServerId)) {
+      return;
+    }
+
+    const idle = [...this.clients.keys()]
+      .filter(serverId => (this.entries.get(serverId)?.leases ?? 0) === 0)
+      .sort((a, b) => this.getEntry(a).lastUsedAt.getTime() - this.getEntry(b).lastUsedAt.getTime());
+
+    if (idle.length === 0) {
+      console.warn(`[MCP:pool] All ${this.clients.size} connections are in use, exceeding limit of ${MAX_CONNECTIONS}`);
+      return;
+    }
+
+    console.log(`[MCP:pool] Connection limit reached, evicting ${idle[0]}`);
+    this.removeServer(idle[0]);
+  }
+
+  /**
+   * 调用工具并记录耗时与错误
+   */
+  async callTool(
+    serverId: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    options?: MCPCallToolOptions
+  ): Promise<MCPToolCallResult> {
+    return this.withClient(serverId, async () => {
+      const entry = this.getEntry(serverId);
+      const startedAt = Date.now();
+      try {
+        const result = await super.callTool(serverId, toolName, args, options);
+        if (result.isError) entry.toolErrors++;
+        return result;
+      } catch (error) {
+        entry.toolErrors++;
+        entry.lastError = error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        entry.toolCalls++;
+        entry.totalLatencyMs += Date.now() - startedAt;
+      }
+    });
+  }
+
+  /**
+   * 获取服务器日志，afterSeq 用于增量拉取
+   */
+  getLogs(serverId: string, afterSeq?: number): { level?: MCPLoggingLevel; entries: MCPLogEntry[] } {
+    const entry = this.entries.get(serverId);
+    return { level: entry?.logLevel, entries: entry?.logs.list(afterSeq) ?? [] };
+  }
+
+  /**
+   * 清空服务器日志
+   */
+  clearLogs(serverId: string): void {
+    this.entries.get(serverId)?.logs.clear();
+  }
+
+  /**
+   * 设置服务器日志级别
+   */
+  async setLogLevel(serverId: string, level: MCPLoggingLevel): Promise<void> {
+    await this.withClient(serverId, client => client.setLoggingLevel(level));
+    this.getEntry(serverId).logLevel = level;
+  }
+
+  /**
+   * 通知所有已连接的服务器根目录列表已变化
+   */
+  async notifyRootsChanged(): Promise<void> {
+    await Promise.all([...this.clients.entries()].map(async ([serverId, client]) => {
+      try {
+        await client.notifyRootsChanged();
+      } catch (error) {
+        console.warn(`[MCP:pool] Failed to notify roots change to ${serverId}:`, error);
+      }
+    }));
+  }
+
+  /**
+   * 启动定期维护（回收空闲连接、健康检查）
+   */
+  private startMaintenance(): void {
+    if (this.maintenanceTimer) return;
+    this.maintenanceTimer = setInterval(() => {
+      this.runMaintenance().catch(error => {
+        console.error('[MCP:pool] Maintenance error:', error);
+      });
+    }, HEALTH_CHECK_INTERVAL_MS);
+    // 不阻止进程退出
+    this.maintenanceTimer.unref?.();
+  }
+
+  private async runMaintenance(): Promise<void> {
+    const now = Date.now();
+
+    await Promise.all([...this.clients.entries()].map(async ([serverId, client]) => {
+      const entry = this.getEntry(serverId);
+      if (entry.leases > 0) return;
+
+      // 有资源订阅的连接需要保持，以便继续接收更新通知
+      if (now - entry.lastUsedAt.getTime() > IDLE_TIMEOUT_MS && !client.hasResourceSubscriptions()) {
+        console.log(`[MCP:pool] Closing idle connection ${serverId}`);
+        this.removeServer(serverId);
+        return;
+      }
+
+      if (!client.isInitialized()) return;
+
+      const startedAt = Date.now();
+      try {
+        await client.ping();
+        entry.lastPingMs = Date.now() - startedAt;
+      } catch (error) {
+        console.warn(`[MCP:pool] Health check failed for ${serverId}, dropping connection:`, error);
+        entry.lastError = error instanceof Error ? error.message : String(error);
+        // 期间可能已被重新获取，仅移除同一个客户端
+        if (this.getClient(serverId) === client && entry.leases === 0) {
+          this.removeServer(serverId);
+        }
+      }
+    }));
+  }
+
+  /**
+   * 获取连接统计
+   */
+  getStats(): MCPPoolServerStats[] {
+    return [...this.entries.entries()].map(([serverId, entry]) => ({
+      serverId,
+      state: this.getClient(serverId)?.getState() ?? 'disconnected',
+      leases: entry.leases,
+      connects: entry.connects,
+      connectFailures: entry.connectFailures,
+      toolCalls: entry.toolCalls,
+      toolErrors: entry.toolErrors,
+      averageLatencyMs: entry.toolCalls > 0 ? Math.round(entry.totalLatencyMs / entry.toolCalls) : 0,
+      lastPingMs: entry.lastPingMs,
+      connectedAt: entry.connectedAt?.toISOString(),
+      lastUsedAt: entry.lastUsedAt.toISOString(),
+      lastError: entry.lastError,
+    }));
+  }
+}
+
+// 保存在 globalThis 上：各路由打包后各自持有模块副本，开发模式热更新也会重新执行模块
+const globalForPool = globalThis as unknown as { mcpConnectionPool?: MCPConnectionPool };
+
+export const mcpPool = globalForPool.mcpConnectionPool ??= new MCPConnectionPool();
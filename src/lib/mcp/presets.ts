@@ -0,0 +1,85 @@
+/**
+ * MCP 工具调用预设（仅服务器端）
+ *
+ * 调试台中保存的工具与参数组合，保存在服务器端，便于重复调用
+ */
+
+import crypto from 'crypto';
+import { MCPToolPreset } from './types';
+import { readJSONFile, writeJSONFile } from './storage';
+
+const STORE_FILE = 'mcp-tool-presets.json';
+
+// 保存在 globalThis 上，各路由共享同一份缓存
+const globalForPresets = globalThis as unknown as { mcpToolPresets?: Promise<MCPToolPreset[]> };
+
+function loadPresets(): Promise<MCPToolPreset[]> {
+  globalForPresets.mcpToolPresets ??= readJSONFile<MCPToolPreset[]>(STORE_FILE, []);
+  return globalForPresets.mcpToolPresets;
+}
+
+async function savePresets(presets: MCPToolPreset[]): Promise<void> {
+  globalForPresets.mcpToolPresets = Promise.resolve(presets);
+  await writeJSONFile(STORE_FILE, presets);
+}
+
+/**
+ * 获取所有预设（按保存时间排列）
+ */
+export async function listMCPToolPresets(): Promise<MCPToolPreset[]> {
+  return loadPresets();
+}
+
+/**
+ * 校验预设，返回错误信息
+ */
+export function validateMCPToolPreset(preset: Partial<MCPToolPreset>): string | null {
+  if (!preset.name?.trim()) {
+    return 'Preset name is required';
+  }
+  if (!preset.serverId || !preset.toolName) {
+    return 'Preset serverId and toolName are required';
+  }
+  if (!preset.arguments || typeof preset.arguments !== 'object' || Array.isArray(preset.arguments)) {
+    return 'Preset arguments must be an object';
+  }
+  return null;
+}
+
+/**
+ * 新增或更新预设（有 id 时按 id 更新），返回保存后的预设
+ */
+export async function saveMCPToolPreset(preset: Partial<MCPToolPreset>): Promise<MCPToolPreset> {
+  const error = validateMCPToolPreset(preset);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const presets = await loadPresets();
+  const existing = preset.id ? presets.find(p => p.id === preset.id) : undefined;
+  const saved: MCPToolPreset = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: preset.name!.trim(),
+    serverId: preset.serverId!,
+    toolName: preset.toolName!,
+    arguments: preset.arguments!,
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+
+  await savePresets(existing
+    ? presets.map(p => p.id === saved.id ? saved : p)
+    : [...presets, saved]);
+  return saved;
+}
+
+/**
+ * 删除预设，返回是否存在
+ */
+export async function deleteMCPToolPreset(id: string): Promise<boolean> {
+  const presets = await loadPresets();
+  if (!presets.some(p => p.id === id)) {
+    return false;
+  }
+  await savePresets(presets.filter(p => p.id !== id));
+  return true;
+}
@@ -0,0 +1,313 @@
+/**
+ * MCP 服务器注册表（仅服务器端）
+ *
+ * 合并预配置的服务器与用户在侧边栏添加的服务器；
+ * 用户服务器保存在服务器端，返回给浏览器前去除令牌等敏感字段
+ */
+
+import crypto from 'crypto';
+import { MCPServerConfig, MCPServerToolConfig } from './types';
+import { MCP_SERVERS, getMCPServerById } from './servers';
+import { MCPServersImportSkipped } from './config-format';
+import { MCP_TOOL_APPROVAL_POLICIES, validateMCPToolSettings } from './tool-settings';
+import { readJSONFile, writeJSONFile } from './storage';
+
+const STORE_FILE = 'mcp-servers.json';
+const TOOL_SETTINGS_FILE = 'mcp-tool-settings.json';
+
+// 预配置服务器的工具设置（用户服务器的工具设置直接保存在其配置中）
+type ToolSettingsStore = Record<string, MCPServerToolConfig>;
+
+// 保存在 globalThis 上，各路由共享同一份缓存
+const globalForRegistry = globalThis as unknown as {
+  mcpUserServers?: Promise<MCPServerConfig[]>;
+  mcpToolSettings?: Promise<ToolSettingsStore>;
+};
+
+function loadUserServers(): Promise<MCPServerConfig[]> {
+  globalForRegistry.mcpUserServers ??= readJSONFile<MCPServerConfig[]>(STORE_FILE, []);
+  return globalForRegistry.mcpUserServers;
+}
+
+async function saveUserServers(servers: MCPServerConfig[]): Promise<void> {
+  globalForRegistry.mcpUserServers = Promise.resolve(servers);
+  await writeJSONFile(STORE_FILE, servers);
+}
+
+function loadToolSettings(): Promise<ToolSettingsStore> {
+  globalForRegistry.mcpToolSettings ??= readJSONFile<ToolSettingsStore>(TOOL_SETTINGS_FILE, {});
+  return globalForRegistry.mcpToolSettings;
+}
+
+/**
+ * 合并预配置服务器保存的工具设置
+ */
+async function withToolSettings(config: MCPServerConfig): Promise<MCPServerConfig> {
+  const settings = (await loadToolSettings())[config.id];
+  return settings ? { ...config, ...settings } : config;
+}
+
+/**
+ * 获取所有服务器配置（预配置在前）
+ */
+export async function getAllMCPServers(): Promise<MCPServerConfig[]> {
+  const builtIn = await Promise.all(MCP_SERVERS.map(withToolSettings));
+  return [...builtIn, ...await loadUserServers()];
+}
+
+/**
+ * 根据 ID 查找服务器配置（包括用户添加的服务器）
+ */
+export async function resolveMCPServer(id: string): Promise<MCPServerConfig | undefined> {
+  const builtIn = getMCPServerById(id);
+  if (builtIn) {
+    return withToolSettings(builtIn);
+  }
+  return (await loadUserServers()).find(server => server.id === id);
+}
+
+/**
+ * 校验用户提交的服务器配置，返回错误信息
+ *
+ * 用户服务器只允许远程传输：stdio 会在服务器上执行任意命令，只能写在配置文件中
+ */
+export function validateMCPServerConfig(config: Partial<MCPServerConfig>): string | undefined {
+  if (!config.name?.trim()) {
+    return '请填写服务器名称';
+  }
+  if (config.transport && config.transport !== 'http' && config.transport !== 'sse') {
+    return '只能添加 HTTP 或 SSE 传输的服务器';
+  }
+  if (!config.endpoint) {
+    return '请填写服务器地址';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(config.endpoint);
+  } catch {
+    return `无效的服务器地址: ${config.endpoint}`;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return '服务器地址必须以 http:// 或 https:// 开头';
+  }
+
+  const authType = config.auth?.type ?? 'none';
+  if (!['none', 'bearer', 'api-key', 'oauth'].includes(authType)) {
+    return `不支持的认证方式: ${authType}`;
+  }
+  if ((authType === 'bearer' || authType === 'api-key') && !config.auth?.token && !config.id) {
+    return '请填写认证令牌';
+  }
+
+  for (const name of Object.keys(config.headers ?? {})) {
+    if (!/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/.test(name)) {
+      return `无效的请求头名称: ${name}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 为新服务器生成 ID（只含字母、数字和连字符，不能与工具名分隔符 "__" 冲突）
+ */
+function generateServerId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 24);
+  const suffix = crypto.randomBytes(3).toString('hex');
+  return slug ? `custom-${slug}-${suffix}` : `custom-${suffix}`;
+}
+
+/**
+ * 规范化用户提交的配置：分配 ID，并用已保存的值补全留空的令牌和请求头
+ *
+ * 浏览器拿到的配置已去除敏感字段，编辑时留空表示保持不变
+ */
+export async function prepareUserMCPServer(input: Partial<MCPServerConfig>): Promise<MCPServerConfig> {
+  const error = validateMCPServerConfig(input);
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (input.id && getMCPServerById(input.id)) {
+    throw new Error(`Built-in server cannot be modified: ${input.id}`);
+  }
+  const existing = input.id ? (await loadUserServers()).find(server => server.id === input.id) : undefined;
+  if (input.id && !existing) {
+    throw new Error(`Server not found: ${input.id}`);
+  }
+
+  const auth = { ...input.auth, type: input.auth?.type ?? 'none' };
+  if (existing?.auth?.type === auth.type) {
+    auth.token ||= existing.auth.token;
+    auth.clientSecret ||= existing.auth.clientSecret;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input.headers ?? {})) {
+    const stored = existing?.headers?.[name];
+    if (value || stored) {
+      headers[name] = value || (stored as string);
+    }
+  }
+
+  return {
+    id: existing?.id ?? generateServerId(input.name as string),
+    name: (input.name as string).trim(),
+    description: input.description?.trim() || undefined,
+    transport: input.transport,
+    endpoint: input.endpoint,
+    icon: input.icon?.trim() || undefined,
+    enabled: false,
+    auth,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    userDefined: true,
+    // 工具设置单独保存，编辑连接配置时保持不变
+    toolsEnabledByDefault: existing?.toolsEnabledByDefault,
+    approvalPolicy: existing?.approvalPolicy,
+    toolSettings: existing?.toolSettings,
+  };
+}
+
+/**
+ * 新增或更新用户服务器
+ */
+export async function saveUserMCPServer(input: Partial<MCPServerConfig>): Promise<MCPServerConfig> {
+  const config = await prepareUserMCPServer(input);
+  const servers = await loadUserServers();
+  const index = servers.findIndex(server => server.id === config.id);
+
+  await saveUserServers(index === -1
+    ? [...servers, config]
+    : servers.map(server => server.id === config.id ? config : server));
+
+  console.log(`[MCP] ${index === -1 ? 'Added' : 'Updated'} user server ${config.id}`);
+  return config;
+}
+
+/**
+ * 批量导入用户服务器：同名的用户服务器会被更新，与预配置服务器地址相同的条目被跳过
+ */
+export async function importUserMCPServers(inputs: Partial<MCPServerConfig>[]): Promise<{
+  imported: MCPServerConfig[];
+  skipped: MCPServersImportSkipped[];
+}> {
+  const servers = [...await loadUserServers()];
+  const imported: MCPServerConfig[] = [];
+  const skipped: MCPServersImportSkipped[] = [];
+
+  for (const input of inputs) {
+    const name = input.name ?? '';
+    if (MCP_SERVERS.some(server => server.endpoint === input.endpoint)) {
+      skipped.push({ name, reason: '与预配置服务器重复' });
+      continue;
+    }
+
+    const index = servers.findIndex(server => server.name === input.name);
+    try {
+      // 导出文件不含令牌，更新已有服务器时保留原有认证配置
+      const existing = servers[index];
+      const config = await prepareUserMCPServer({ ...input, id: existing?.id, auth: existing?.auth ?? input.auth });
+      if (index === -1) {
+        servers.push(config);
+      } else {
+        servers[index] = config;
+      }
+      imported.push(config);
+    } catch (error) {
+      skipped.push({ name, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (imported.length > 0) {
+    await saveUserServers(servers);
+    console.log(`[MCP] Imported ${imported.length} user servers`);
+  }
+  return { imported, skipped };
+}
+
+/**
+ * 保存服务器的工具设置（预配置服务器与用户服务器均可设置）
+ *
+ * toolNames 为服务器当前提供的工具，用于检查别名是否与其他工具重名
+ */
+export async function saveMCPToolSettings(
+  serverId: string,
+  settings: MCPServerToolConfig,
+  toolNames: string[] = []
+): Promise<MCPServerConfig> {
+  const error = settings.approvalPolicy && !MCP_TOOL_APPROVAL_POLICIES.includes(settings.approvalPolicy)
+    ? `无效的确认策略: ${settings.approvalPolicy}`
+    : validateMCPToolSettings(serverId, settings.toolSettings ?? {}, toolNames);
+  if (error) {
+    throw new Error(error);
+  }
+
+  // 只保存有实际内容的设置
+  const toolSettings = Object.fromEntries(
+    Object.entries(settings.toolSettings ?? {})
+      .map(([toolName, tool]) => [toolName, {
+        ...(tool.enabled !== undefined ? { enabled: tool.enabled } : {}),
+        ...(tool.alias?.trim() ? { alias: tool.alias.trim() } : {}),
+        ...(tool.description?.trim() ? { description: tool.description.trim() } : {}),
+        ...(tool.approval ? { approval: tool.approval } : {}),
+      }] as const)
+      .filter(([, tool]) => Object.keys(tool).length > 0)
+  );
+  const normalized = {
+    toolsEnabledByDefault: settings.toolsEnabledByDefault === false ? false : undefined,
+    // 未设置时按工具注解决定，因此 "never" 也需要保存
+    approvalPolicy: settings.approvalPolicy || undefined,
+    toolSettings: Object.keys(toolSettings).length > 0 ? toolSettings : undefined,
+  };
+
+  const builtIn = getMCPServerById(serverId);
+  if (builtIn) {
+    const store = await loadToolSettings();
+    const next = { ...store, [serverId]: normalized };
+    globalForRegistry.mcpToolSettings = Promise.resolve(next);
+    await writeJSONFile(TOOL_SETTINGS_FILE, next);
+    return { ...builtIn, ...normalized };
+  }
+
+  const servers = await loadUserServers();
+  const existing = servers.find(server => server.id === serverId);
+  if (!existing) {
+    throw new Error(`Server not found: ${serverId}`);
+  }
+  const updated = { ...existing, ...normalized };
+  await saveUserServers(servers.map(server => server.id === serverId ? updated : server));
+  return updated;
+}
+
+/**
+ * 删除用户服务器，返回是否存在
+ */
+export async function deleteUserMCPServer(id: string): Promise<boolean> {
+  const servers = await loadUserServers();
+  if (!servers.some(server => server.id === id)) {
+    return false;
+  }
+
+  await saveUserServers(servers.filter(server => server.id !== id));
+  console.log(`[MCP] Deleted user server ${id}`);
+  return true;
+}
+
+/**
+ * 去除令牌、客户端密钥和请求头的值，供返回给浏览器
+ */
+export function redactMCPServerConfig(config: MCPServerConfig): MCPServerConfig {
+  const { token, clientSecret, ...auth } = config.auth ?? { type: 'none' };
+  return {
+    ...config,
+    auth: {
+      ...auth,
+      // 用空字符串标记“已设置”，编辑时留空即保持不变
+      ...(token ? { token: '' } : {}),
+      ...(clientSecret ? { clientSecret: '' } : {}),
+    },
+    headers: config.headers
+      ? Object.fromEntries(Object.keys(config.headers).map(name => [name, '']))
+      : undefined,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * MCP 根目录（仅服务器端）
+ *
+ * 每个对话的工作区：用户在侧边栏设置的目录按对话保存，服务器在该对话的工具调用期间
+ * 通过 roots/list 读取；变化后由连接池发送 notifications/roots/list_changed
+ *
+ * 只能添加允许范围内的目录：MCP_ROOTS_ALLOWED_DIRS（以系统路径分隔符分隔），默认为用户主目录
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { MCPRoot } from './types';
+import { getMCPConversation } from './conversations';
+
+/**
+ * 获取允许作为根目录的目录（已解析符号链接）
+ */
+function getAllowedRootDirs(): string[] {
+  const configured = process.env.MCP_ROOTS_ALLOWED_DIRS?.split(path.delimiter).filter(dir => dir.trim()) ?? [];
+  const dirs = configured.length > 0 ? configured : [os.homedir()];
+  return dirs.map(dir => {
+    const resolved = path.resolve(dir.trim());
+    try {
+      return fs.realpathSync.native(resolved);
+    } catch {
+      return resolved;
+    }
+  });
+}
+
+/**
+ * 检查路径是否位于允许的目录内（文件系统根目录始终拒绝）
+ */
+function isAllowedRootPath(filePath: string): boolean {
+  if (path.parse(filePath).root === filePath) {
+    return false;
+  }
+  return getAllowedRootDirs().some(dir => {
+    const relative = path.relative(dir, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
+}
+
+/**
+ * 获取对话的根目录
+ */
+export function getMCPRoots(conversationId: string): MCPRoot[] {
+  return getMCPConversation(conversationId).roots;
+}
+
+/**
+ * 规范化根目录：绝对路径转换为 file:// URI，未命名时使用目录名
+ *
+ * 路径必须存在且位于允许的目录内
+ */
+export function normalizeMCPRoot(root: Partial<MCPRoot>): MCPRoot {
+  const location = root.uri?.trim();
+  if (!location) {
+    throw new Error('Root uri is required');
+  }
+
+  let filePath: string;
+  if (location.startsWith('file://')) {
+    // 非法的 file URI 会抛出错误
+    filePath = fileURLToPath(location);
+  } else if (path.isAbsolute(location)) {
+    filePath = location;
+  } else {
+    throw new Error(`Root must be an absolute path or file:// URI: ${location}`);
+  }
+
+  // 解析 .. 与符号链接后再检查范围
+  try {
+    filePath = fs.realpathSync.native(path.resolve(filePath));
+  } catch {
+    throw new Error(`Root does not exist: ${location}`);
+  }
+  if (!isAllowedRootPath(filePath)) {
+    throw new Error(`Root is outside the allowed directories: ${filePath}`);
+  }
+
+  const uri = pathToFileURL(filePath).href;
+  const name = root.name?.trim() || path.basename(filePath) || uri;
+  return { uri, name };
+}
+
+/**
+ * 替换对话的根目录（按 URI 去重），返回规范化后的列表
+ */
+export function setMCPRoots(conversationId: string, roots: Partial<MCPRoot>[]): MCPRoot[] {
+  const normalized = new Map<string, MCPRoot>();
+  for (const root of roots) {
+    const entry = normalizeMCPRoot(root);
+    normalized.set(entry.uri, entry);
+  }
+  const conversation = getMCPConversation(conversationId);
+  conversation.roots = [...normalized.values()];
+  return conversation.roots;
+}
@@ -0,0 +1,110 @@
+/**
+ * MCP 采样（仅服务器端）
+ *
+ * 服务器通过 sampling/createMessage 请求客户端调用模型生成回复；
+ * 这里负责校验请求、按服务器的模型偏好选择模型，并转换为 Chat Completions 请求
+ */
+
+import OpenAI from 'openai';
+import { models } from '@/lib/instruct-agent/models';
+import { MCPRequestError } from './client';
+import { MCPCreateMessageParams, MCPCreateMessageResult, MCPModelPreferences, MCPSamplingMessage } from './types';
+
+// 推理模型不支持 temperature 参数
+const REASONING_MODEL_PATTERN = /\/(o\d|gpt-5)/;
+
+/**
+ * 校验服务器发来的采样请求参数
+ */
+export function parseSamplingRequest(params: unknown): MCPCreateMessageParams {
+  const request = params as Partial<MCPCreateMessageParams> | undefined;
+  if (!request || !Array.isArray(request.messages) || request.messages.length === 0) {
+    throw new MCPRequestError(-32602, 'Invalid params: messages is required');
+  }
+  if (typeof request.maxTokens !== 'number' || request.maxTokens <= 0) {
+    throw new MCPRequestError(-32602, 'Invalid params: maxTokens must be a positive number');
+  }
+  for (const message of request.messages) {
+    if ((message?.role !== 'user' && message?.role !== 'assistant') || !message.content?.type) {
+      throw new MCPRequestError(-32602, 'Invalid params: malformed sampling message');
+    }
+  }
+  return request as MCPCreateMessageParams;
+}
+
+/**
+ * 按服务器的模型偏好选择模型
+ *
+ * - 提示的名称与可用模型匹配时使用该模型（按提示顺序）
+ * - 否则速度或成本优先级高于智能优先级时，使用当前模型的 mini 版本（如有）
+ * - 其余情况使用用户选择的模型
+ */
+export function selectSamplingModel(preferences: MCPModelPreferences | undefined, defaultModel: string): string {
+  for (const hint of preferences?.hints ?? []) {
+    const name = hint.name?.toLowerCase();
+    if (!name) continue;
+    const matched = models.find(model => model.id.toLowerCase().includes(name) || model.name.toLowerCase().includes(name));
+    if (matched) {
+      return matched.id;
+    }
+  }
+
+  const intelligence = preferences?.intelligencePriority ?? 0;
+  const economy = Math.max(preferences?.speedPriority ?? 0, preferences?.costPriority ?? 0);
+  if (economy > intelligence) {
+    const mini = models.find(model => model.id === `${defaultModel}-mini`);
+    if (mini) {
+      return mini.id;
+    }
+  }
+  return defaultModel;
+}
+
+/**
+ * 将采样消息转换为 Chat Completions 消息（图片只能出现在用户消息中，音频以占位说明代替）
+ */
+function toChatMessage(message: MCPSamplingMessage, supportsVision: boolean): OpenAI.Chat.ChatCompletionMessageParam {
+  const { role, content } = message;
+  if (content.type === 'image' && role === 'user' && supportsVision && content.data) {
+    return {
+      role,
+      content: [{ type: 'image_url', image_url: { url: `data:${content.mimeType};base64,${content.data}` } }],
+    };
+  }
+  const text = content.type === 'text' ? content.text ?? '' : `[${content.type}: ${content.mimeType ?? 'unknown'}]`;
+  return { role, content: text };
+}
+
+/**
+ * 调用模型生成采样回复
+ */
+export async function createSamplingMessage(
+  client: OpenAI,
+  model: string,
+  request: MCPCreateMessageParams,
+  signal?: AbortSignal
+): Promise<MCPCreateMessageResult> {
+  const supportsVision = models.find(m => m.id === model)?.supportsVision ?? false;
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt }] : []),
+    ...request.messages.map(message => toChatMessage(message, supportsVision)),
+  ];
+
+  const completion = await client.chat.completions.create({
+    model,
+    messages,
+    max_completion_tokens: request.maxTokens,
+    ...(request.stopSequences?.length ? { stop: request.stopSequences } : {}),
+    ...(request.temperature !== undefined && !REASONING_MODEL_PATTERN.test(model)
+      ? { temperature: request.temperature }
+      : {}),
+  }, { signal });
+
+  const choice = completion.choices[0];
+  return {
+    role: 'assistant',
+    content: { type: 'text', text: choice?.message?.content ?? '' },
+    model,
+    stopReason: choice?.finish_reason === 'length' ? 'maxTokens' : 'endTurn',
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * JSON Schema 校验
+ *
+ * 只实现工具 outputSchema 常用的子集：type、enum、const、properties、required、
+ * additionalProperties、items、anyOf / oneOf、数值与长度范围；其他关键字忽略
+ */
+
+import { MCPJSONSchema } from './types';
+
+// 错误信息最多返回的条数
+const MAX_ERRORS = 10;
+
+/**
+ * 返回值的 JSON 类型
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonTypeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function validateAt(value: unknown, schema: MCPJSONSchema, path: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS || !schema || typeof schema !== 'object') {
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: 应为 ${types.join(' | ')}，实际为 ${jsonTypeOf(value)}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => isDeepEqual(option, value))) {
+    errors.push(`${path}: 不在允许的取值中`);
+  }
+  if ('const' in schema && !isDeepEqual(schema.const, value)) {
+    errors.push(`${path}: 应等于 ${JSON.stringify(schema.const)}`);
+  }
+
+  for (const [keyword, variants] of [['anyOf', schema.anyOf], ['oneOf', schema.oneOf]] as const) {
+    if (!variants) continue;
+    const matched = variants.filter(variant => validateJSONSchema(value, variant).length === 0).length;
+    if (keyword === 'anyOf' ? matched === 0 : matched !== 1) {
+      errors.push(`${path}: 不满足 ${keyword}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: 不能小于 ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: 不能大于 ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: 长度不能小于 ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: 长度不能大于 ${schema.maxLength}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: 至少需要 ${schema.minItems} 项`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: 最多 ${schema.maxItems} 项`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateAt(item, schema.items as MCPJSONSchema, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (jsonTypeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push(`${path}: 缺少必填字段 ${key}`);
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateAt(item, propertySchema, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: 不允许的字段 ${key}`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateAt(item, schema.additionalProperties, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * 按 JSON Schema 校验值，返回错误信息（为空表示通过）
+ */
+export function validateJSONSchema(value: unknown, schema: MCPJSONSchema): string[] {
+  const errors: string[] = [];
+  validateAt(value, schema, '$', errors);
+  return errors.slice(0, MAX_ERRORS);
+}
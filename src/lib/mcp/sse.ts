@@ -0,0 +1,117 @@
+/**
+ * SSE (Server-Sent Events) 增量解析
+ *
+ * 按照 WHATWG EventSource 规范逐块解析事件流，
+ * 每解析出一个完整事件就立即产出，不等待流结束
+ */
+
+/**
+ * 单个 SSE 事件
+ */
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * 增量读取 SSE 事件流
+ */
+export async function* readSSEEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // 当前正在累积的事件字段
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const processLine = (line: string): SSEEvent | null => {
+    // 空行表示事件结束
+    if (line === '') {
+      if (dataLines.length === 0) {
+        eventType = '';
+        return null;
+      }
+      const event: SSEEvent = {
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        id: lastEventId,
+        retry,
+      };
+      eventType = '';
+      dataLines = [];
+      return event;
+    }
+
+    // 注释行
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          retry = Number(value);
+        }
+        break;
+    }
+    return null;
+  };
+
+  // 上一块以 \r 结尾时，下一块开头的 \n 属于同一个 \r\n 换行
+  let skipLeadingLF = false;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      let chunk = decoder.decode(value, { stream: true });
+      if (skipLeadingLF && chunk.startsWith('\n')) {
+        chunk = chunk.slice(1);
+      }
+      if (chunk) {
+        skipLeadingLF = chunk.endsWith('\r');
+      }
+      buffer += chunk;
+
+      // 按行切分，保留最后一个可能不完整的行
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const event = processLine(line);
+        if (event) {
+          yield event;
+        }
+      }
+    }
+    // 流结束时残留的数据属于未以空行结束的事件（例如连接中途断开），按规范丢弃
+  } finally {
+    reader.releaseLock();
+  }
+}
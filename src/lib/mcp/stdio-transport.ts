@@ -0,0 +1,245 @@
+/**
+ * stdio 传输（仅 Node.js 运行时）
+ *
+ * 以子进程方式启动本地 MCP 服务器（如 npx / uvx 命令），
+ * 通过 stdin/stdout 以换行分隔的 JSON 交换 JSON-RPC 消息；
+ * 进程意外退出时自动重启，断开连接时终止进程
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { MCPServerConfig, MCPMessage } from './types';
+import { MCPTransport, MCPSessionExpiredError } from './transport';
+
+// 崩溃后最多连续重启次数，以及重启计数的重置窗口
+const MAX_RESTARTS = 3;
+const RESTART_WINDOW_MS = 60_000;
+
+// 发送 SIGTERM 后等待进程退出的时间，超时后强制结束
+const KILL_TIMEOUT_MS = 3_000;
+
+// 默认继承的环境变量，其余变量（如各类 token）不会泄露给子进程
+const INHERITED_ENV_VARS = process.platform === 'win32'
+  ? ['APPDATA', 'HOMEDRIVE', 'HOMEPATH', 'LOCALAPPDATA', 'PATH', 'PATHEXT', 'PROCESSOR_ARCHITECTURE',
+    'SYSTEMDRIVE', 'SYSTEMROOT', 'TEMP', 'USERNAME', 'USERPROFILE', 'PROGRAMFILES']
+  : ['HOME', 'LOGNAME', 'PATH', 'SHELL', 'TERM', 'USER', 'LANG', 'TMPDIR'];
+
+// 当前存活的子进程，宿主进程退出时统一清理
+const liveProcesses = new Set<ChildProcess>();
+let exitHookInstalled = false;
+
+function installExitHook(): void {
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.once('exit', () => {
+    for (const child of liveProcesses) {
+      child.kill('SIGKILL');
+    }
+  });
+}
+
+/**
+ * 构建子进程环境变量
+ */
+function buildEnvironment(env?: Record<string, string>): NodeJS.ProcessEnv {
+  const result: Record<string, string> = {};
+  for (const key of INHERITED_ENV_VARS) {
+    const value = process.env[key];
+    // 跳过 bash 导出的函数定义
+    if (value !== undefined && !value.startsWith('()')) {
+      result[key] = value;
+    }
+  }
+  return { ...result, ...env } as NodeJS.ProcessEnv;
+}
+
+export class StdioTransport implements MCPTransport {
+  onMessage?: (message: MCPMessage) => void;
+  onClose?: (error: Error) => void;
+  onRestart?: () => void;
+
+  private config: MCPServerConfig;
+  private child?: ChildProcess;
+  private starting?: Promise<void>;
+  private buffer = '';
+  private closed = false;
+  private restartTimestamps: number[] = [];
+
+  constructor(config: MCPServerConfig) {
+    if (!config.command) {
+      throw new Error(`Missing command for stdio MCP server: ${config.id}`);
+    }
+    this.config = config;
+  }
+
+  /**
+   * 启动子进程（已在运行时直接返回）
+   */
+  start(): Promise<void> {
+    this.closed = false;
+    if (this.child) {
+      return Promise.resolve();
+    }
+    if (!this.starting) {
+      this.starting = this.spawnProcess().finally(() => {
+        this.starting = undefined;
+      });
+    }
+    return this.starting;
+  }
+
+  private spawnProcess(): Promise<void> {
+    const { id, command, args = [], env, cwd } = this.config;
+    installExitHook();
+
+    return new Promise<void>((resolve, reject) => {
+      console.log(`[MCP:stdio] Starting ${id}: ${command} ${args.join(' ')}`);
+
+      const child = spawn(command as string, args, {
+        cwd,
+        env: buildEnvironment(env),
+        stdio: ['pipe', 'pipe', 'pipe'],
+        // Windows 下 npx 等命令是 .cmd 脚本，需要通过 shell 启动
+        shell: process.platform === 'win32',
+        windowsHide: true,
+      });
+
+      child.once('spawn', () => {
+        this.child = child;
+        this.buffer = '';
+        liveProcesses.add(child);
+        resolve();
+      });
+
+      child.once('error', error => {
+        liveProcesses.delete(child);
+        if (this.child !== child) {
+          // 启动阶段失败（如命令不存在）
+          reject(new Error(`Failed to start MCP server ${id}: ${error.message}`));
+          return;
+        }
+        console.error(`[MCP:stdio] Process error (${id}):`, error);
+      });
+
+      child.stdout?.setEncoding('utf8');
+      child.stdout?.on('data', (chunk: string) => this.handleStdout(chunk));
+
+      // stderr 只用于日志输出
+      child.stderr?.setEncoding('utf8');
+      child.stderr?.on('data', (chunk: string) => {
+        for (const line of chunk.split('\n')) {
+          if (line.trim()) {
+            console.log(`[MCP:stdio:${id}] ${line}`);
+          }
+        }
+      });
+
+      child.once('exit', (code, signal) => {
+        liveProcesses.delete(child);
+        if (this.child !== child) {
+          return;
+        }
+        this.child = undefined;
+
+        if (this.closed) {
+          return;
+        }
+
+        const error = new Error(`MCP server ${id} exited unexpectedly (code: ${code}, signal: ${signal})`);
+        console.error(`[MCP:stdio] ${error.message}`);
+        this.onClose?.(error);
+        this.scheduleRestart();
+      });
+    });
+  }
+
+  /**
+   * 进程崩溃后重启，窗口期内超过次数上限则放弃
+   */
+  private scheduleRestart(): void {
+    const now = Date.now();
+    this.restartTimestamps = this.restartTimestamps.filter(t => now - t < RESTART_WINDOW_MS);
+
+    if (this.restartTimestamps.length >= MAX_RESTARTS) {
+      console.error(`[MCP:stdio] ${this.config.id} crashed ${MAX_RESTARTS} times within ${RESTART_WINDOW_MS}ms, giving up`);
+      return;
+    }
+
+    this.restartTimestamps.push(now);
+    const delay = 500 * 2 ** (this.restartTimestamps.length - 1);
+
+    setTimeout(() => {
+      if (this.closed || this.child) return;
+      this.start()
+        .then(() => this.onRestart?.())
+        .catch(error => console.error(`[MCP:stdio] Restart failed (${this.config.id}):`, error));
+    }, delay);
+  }
+
+  /**
+   * 按行切分 stdout，每行是一条完整的 JSON-RPC 消息
+   */
+  private handleStdout(chunk: string): void {
+    this.buffer += chunk;
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+
+      if (!line.trim()) continue;
+
+      try {
+        const payload = JSON.parse(line) as MCPMessage | MCPMessage[];
+        const messages = Array.isArray(payload) ? payload : [payload];
+        for (const message of messages) {
+          this.onMessage?.(message);
+        }
+      } catch {
+        // 部分服务器会把日志打印到 stdout
+        console.warn(`[MCP:stdio:${this.config.id}] Ignoring non-JSON output: ${line.slice(0, 200)}`);
+      }
+    }
+  }
+
+  async send(message: MCPMessage): Promise<void> {
+    // 进程已退出或正在重启：新进程需要重新握手
+    const child = this.child;
+    if (!child?.stdin || child.stdin.destroyed) {
+      throw new MCPSessionExpiredError(`MCP server ${this.config.id} is not running`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      child.stdin!.write(`${JSON.stringify(message)}\n`, error => {
+        if (error) reject(error);
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * 终止子进程：先关闭 stdin 并发送 SIGTERM，超时后强制结束
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const child = this.child;
+    this.child = undefined;
+
+    if (!child || child.exitCode !== null) {
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+      }, KILL_TIMEOUT_MS);
+
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+
+      child.stdin?.end();
+      child.kill('SIGTERM');
+    });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * 服务器端 JSON 文件存储（仅 Node.js 运行时）
+ *
+ * 数据保存在项目根目录的 .data/ 下，用于持久化 OAuth 令牌等服务器端状态
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = path.join(process.cwd(), '.data');
+
+/**
+ * 读取 JSON 文件，不存在时返回默认值
+ */
+export async function readJSONFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const text = await fs.readFile(path.join(DATA_DIR, name), 'utf8');
+    return JSON.parse(text) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 写入 JSON 文件（先写临时文件再重命名，避免写入中断导致文件损坏）
+ */
+export async function writeJSONFile(name: string, data: unknown): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const filePath = path.join(DATA_DIR, name);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+  await fs.rename(tempPath, filePath);
+}
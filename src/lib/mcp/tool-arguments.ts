@@ -0,0 +1,82 @@
+/**
+ * MCP 工具参数
+ *
+ * 按工具的 inputSchema 生成默认参数，并清理表单中未填写的字段
+ */
+
+import { MCPTool, MCPToolProperty } from './types';
+
+/**
+ * 获取属性的默认值：优先使用 default，对象按嵌套属性的默认值组合
+ */
+export function getDefaultToolArgument(property: MCPToolProperty): unknown {
+  if (property.default !== undefined) {
+    return property.default;
+  }
+  if (property.type === 'object' && property.properties) {
+    return getDefaultToolArguments(property);
+  }
+  return undefined;
+}
+
+/**
+ * 按 inputSchema 生成默认参数（只包含有默认值的字段）
+ */
+export function getDefaultToolArguments(
+  schema: MCPTool['inputSchema'] | MCPToolProperty
+): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const value = getDefaultToolArgument(property);
+    if (value !== undefined) {
+      args[name] = value;
+    }
+  }
+  return args;
+}
+
+/**
+ * 获取数组新增条目的初始值
+ */
+export function getEmptyToolArgument(property: MCPToolProperty): unknown {
+  const value = getDefaultToolArgument(property);
+  if (value !== undefined) {
+    return value;
+  }
+  switch (property.type) {
+    case 'string':
+      return '';
+    case 'boolean':
+      return false;
+    case 'object':
+      return {};
+    case 'array':
+      return [];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 去除未填写的字段（undefined 与空字符串），对象和数组逐层清理
+ */
+export function pruneToolArguments(value: Record<string, unknown>): Record<string, unknown> {
+  const prune = (item: unknown): unknown => {
+    if (Array.isArray(item)) {
+      return item.map(prune).filter(entry => entry !== undefined);
+    }
+    if (item && typeof item === 'object') {
+      return pruneToolArguments(item as Record<string, unknown>);
+    }
+    return item === '' ? undefined : item;
+  };
+
+  const result: Record<string, unknown> = {};
+  for (const [name, item] of Object.entries(value)) {
+    const pruned = prune(item);
+    if (pruned !== undefined) {
+      result[name] = pruned;
+    }
+  }
+  return result;
+}
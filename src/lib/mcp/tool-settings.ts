@@ -0,0 +1,160 @@
+/**
+ * MCP 工具设置
+ *
+ * 按服务器配置过滤暴露给模型的工具，应用别名与描述覆盖，并确定调用前的确认策略
+ */
+
+import { MCPServerConfig, MCPTool, MCPToolApprovalPolicy, MCPToolSettings } from './types';
+
+// OpenAI 函数名允许的字符；"__" 是服务器 ID 与工具名的分隔符，别名中不能出现
+const ALIAS_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// OpenAI 函数名（"serverId__工具名"）的最大长度
+const MAX_FUNCTION_NAME_LENGTH = 64;
+
+export const MCP_TOOL_APPROVAL_POLICIES: MCPToolApprovalPolicy[] = ['always', 'once', 'never'];
+
+/**
+ * 工具是否暴露给模型
+ */
+export function isMCPToolEnabled(config: MCPServerConfig, toolName: string): boolean {
+  return config.toolSettings?.[toolName]?.enabled ?? config.toolsEnabledByDefault ?? true;
+}
+
+/**
+ * 函数名（"serverId__name"）是否在 OpenAI 的长度限制内
+ */
+function fitsFunctionName(serverId: string, name: string): boolean {
+  return `${serverId}__${name}`.length <= MAX_FUNCTION_NAME_LENGTH;
+}
+
+/**
+ * 按暴露给模型的名称索引已启用的工具
+ *
+ * 未设置别名的工具优先使用原名；别名与其他工具暴露的名称冲突、或函数名超长的工具不暴露
+ */
+function indexExposedMCPTools(config: MCPServerConfig, tools: MCPTool[]): Map<string, MCPTool> {
+  const enabled = tools.filter(tool => isMCPToolEnabled(config, tool.name));
+  const exposed = new Map<string, MCPTool>();
+  for (const tool of enabled) {
+    if (!config.toolSettings?.[tool.name]?.alias) {
+      exposed.set(tool.name, tool);
+    }
+  }
+  for (const tool of enabled) {
+    const alias = config.toolSettings?.[tool.name]?.alias;
+    if (alias && !exposed.has(alias)) {
+      exposed.set(alias, tool);
+    }
+  }
+  for (const name of exposed.keys()) {
+    if (!fitsFunctionName(config.id, name)) {
+      exposed.delete(name);
+    }
+  }
+  return exposed;
+}
+
+/**
+ * 返回暴露给模型的工具（已应用别名和描述覆盖）
+ */
+export function getExposedMCPTools(config: MCPServerConfig, tools: MCPTool[]): MCPTool[] {
+  const exposedNames = new Map([...indexExposedMCPTools(config, tools)].map(([name, tool]) => [tool, name]));
+  return tools
+    .filter(tool => exposedNames.has(tool))
+    .map(tool => ({
+      ...tool,
+      name: exposedNames.get(tool) as string,
+      description: config.toolSettings?.[tool.name]?.description || tool.description,
+    }));
+}
+
+/**
+ * 把模型调用的工具名（可能是别名）解析为服务器上的工具名；工具未暴露给模型时返回 undefined
+ */
+export function resolveMCPToolName(config: MCPServerConfig, tools: MCPTool[], exposedName: string): string | undefined {
+  return indexExposedMCPTools(config, tools).get(exposedName)?.name;
+}
+
+/**
+ * 工具显示名称：title 优先于 annotations.title，都没有时使用工具名
+ */
+export function getMCPToolTitle(tool: MCPTool): string {
+  return tool.title || tool.annotations?.title || tool.name;
+}
+
+/**
+ * 工具是否声明为只读
+ */
+export function isMCPToolReadOnly(tool: MCPTool | undefined): boolean {
+  return tool?.annotations?.readOnlyHint === true;
+}
+
+/**
+ * 工具是否可能是破坏性操作
+ *
+ * 按规范，非只读工具的 destructiveHint 缺省为 true，未标注的写操作同样视为破坏性
+ */
+export function isMCPToolDestructive(tool: MCPTool | undefined): boolean {
+  return !isMCPToolReadOnly(tool) && tool?.annotations?.destructiveHint !== false;
+}
+
+/**
+ * 工具调用失败后能否安全重试（只读或幂等）
+ */
+export function isMCPToolIdempotent(tool: MCPTool | undefined): boolean {
+  return isMCPToolReadOnly(tool) || tool?.annotations?.idempotentHint === true;
+}
+
+/**
+ * 工具调用前的确认策略
+ *
+ * 工具设置优先于服务器设置；都未设置时，提供了注解且为破坏性的工具每次调用前确认，其余无需确认。
+ * 未提供注解的工具虽按规范视为破坏性，但多数服务器不提供注解，默认不要求确认
+ */
+export function getMCPToolApprovalPolicy(
+  config: MCPServerConfig,
+  toolName: string,
+  tool?: MCPTool
+): MCPToolApprovalPolicy {
+  return config.toolSettings?.[toolName]?.approval
+    ?? config.approvalPolicy
+    ?? (tool?.annotations && isMCPToolDestructive(tool) ? 'always' : 'never');
+}
+
+/**
+ * 校验工具设置，返回错误信息
+ *
+ * toolNames 为服务器当前提供的工具，别名不能与其他工具暴露的名称相同
+ */
+export function validateMCPToolSettings(
+  serverId: string,
+  toolSettings: Record<string, MCPToolSettings>,
+  toolNames: string[] = []
+): string | undefined {
+  for (const settings of Object.values(toolSettings)) {
+    if (settings.approval && !MCP_TOOL_APPROVAL_POLICIES.includes(settings.approval)) {
+      return `无效的确认策略: ${settings.approval}`;
+    }
+    if (!settings.alias) continue;
+
+    if (!ALIAS_PATTERN.test(settings.alias) || settings.alias.includes('__')) {
+      return `无效的工具别名: ${settings.alias}（只能包含字母、数字、_ 和 -，且不能包含 "__"）`;
+    }
+    if (!fitsFunctionName(serverId, settings.alias)) {
+      return `工具别名过长: ${settings.alias}（加上服务器 ID 前缀后超过 ${MAX_FUNCTION_NAME_LENGTH} 个字符）`;
+    }
+  }
+
+  // 每个工具以别名或原名暴露，不能重名
+  const exposedNames = new Map<string, string>();
+  for (const toolName of new Set([...toolNames, ...Object.keys(toolSettings)])) {
+    const exposedName = toolSettings[toolName]?.alias || toolName;
+    const other = exposedNames.get(exposedName);
+    if (other !== undefined) {
+      return `工具别名重复: ${exposedName}（工具 ${other} 与 ${toolName} 将以相同名称提供给模型）`;
+    }
+    exposedNames.set(exposedName, toolName);
+  }
+  return undefined;
+}
@@ -0,0 +1,118 @@
+/**
+ * MCP 传输层接口
+ * 
+ * 传输层负责把 JSON-RPC 消息送达服务器，并把服务器发来的所有消息
+ * （响应、通知、服务器请求）交给 onMessage 回调；请求与响应的匹配由 MCPClient 完成
+ */
+
+import { MCPMessage, MCPServerConfig } from './types';
+import { getOAuthAccessToken } from './oauth';
+
+/**
+ * HTTP 请求失败（携带状态码，供客户端判断是否回退到旧版传输）
+ */
+export class MCPHttpError extends Error {
+  status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`MCP request failed: ${status} ${statusText}`);
+    this.name = 'MCPHttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * 服务器要求授权（HTTP 401），需要先完成 OAuth 授权流程
+ */
+export class MCPUnauthorizedError extends MCPHttpError {
+  constructor(serverId: string) {
+    super(401, `Unauthorized (authorization required for ${serverId})`);
+    this.name = 'MCPUnauthorizedError';
+  }
+}
+
+/**
+ * 服务器端会话已失效（HTTP 404 或连接已断开），客户端需要重新初始化
+ */
+export class MCPSessionExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MCPSessionExpiredError';
+  }
+}
+
+/**
+ * 请求在超时时间内未收到响应
+ */
+export class MCPTimeoutError extends Error {
+  constructor(method: string, timeoutMs: number) {
+    super(`MCP request timed out after ${timeoutMs}ms: ${method}`);
+    this.name = 'MCPTimeoutError';
+  }
+}
+
+/**
+ * 构建自定义请求头与认证请求头
+ *
+ * 未配置静态凭据时，使用 OAuth 授权获得的访问令牌（如有）
+ */
+export async function buildAuthHeaders(config: MCPServerConfig): Promise<Record<string, string>> {
+  const headers: Record<string, string> = { ...config.headers };
+  const auth = config.auth;
+  if (auth?.type === 'bearer' && auth.token) {
+    headers['Authorization'] = `Bearer ${auth.token}`;
+  } else if (auth?.type === 'api-key' && auth.token) {
+    const headerName = auth.headerName || 'X-API-Key';
+    headers[headerName] = auth.token;
+  } else {
+    const accessToken = await getOAuthAccessToken(config.id);
+    if (accessToken) {
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    }
+  }
+  return headers;
+}
+
+export interface MCPTransport {
+  /**
+   * 收到服务器消息时回调
+   *
+   * relatedRequestId 为消息所在响应流对应的请求 ID（仅 Streamable HTTP 的 POST 响应流可确定）
+   */
+  onMessage?: (message: MCPMessage, relatedRequestId?: string | number) => void;
+
+  /**
+   * 连接意外断开时回调（如子进程崩溃），进行中的请求应当失败
+   */
+  onClose?: (error: Error) => void;
+
+  /**
+   * 连接恢复后回调（如子进程重启），客户端需要重新初始化会话
+   */
+  onRestart?: () => void;
+
+  /**
+   * 建立连接（幂等）
+   */
+  start(): Promise<void>;
+
+  /**
+   * 发送一条消息；signal 中止时放弃尚未完成的发送与响应读取
+   */
+  send(message: MCPMessage, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * 记录握手协商的协议版本（HTTP 传输需要在后续请求头中携带）
+   */
+  setProtocolVersion?(version: string): void;
+
+  /**
+   * 打开接收服务器主动推送消息的通道（可选）
+   */
+  listen?(): void;
+
+  /**
+   * 关闭连接并释放资源
+   */
+  close(): Promise<void>;
+}
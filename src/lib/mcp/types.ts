@@ -7,20 +7,73 @@
 // MCP 工具定义
 export interface MCPTool {
   name: string;
+  // 供界面显示的名称
+  title?: string;
   description?: string;
   inputSchema: {
     type: 'object';
     properties?: Record<string, MCPToolProperty>;
     required?: string[];
   };
+  annotations?: MCPToolAnnotations;
+  // 结构化结果（structuredContent）的 JSON Schema
+  outputSchema?: MCPJSONSchema;
+}
+
+// JSON Schema（只列出校验用到的关键字）
+export interface MCPJSONSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, MCPJSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | MCPJSONSchema;
+  items?: MCPJSONSchema;
+  anyOf?: MCPJSONSchema[];
+  oneOf?: MCPJSONSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+  [key: string]: unknown;
+}
+
+// 工具行为注解（由服务器声明，仅作提示）
+export interface MCPToolAnnotations {
+  title?: string;
+  // 不修改任何状态
+  readOnlyHint?: boolean;
+  // 可能执行破坏性修改（readOnlyHint 为 false 时才有意义）
+  destructiveHint?: boolean;
+  // 以相同参数重复调用不会产生额外影响
+  idempotentHint?: boolean;
+  // 会与外部系统交互
+  openWorldHint?: boolean;
 }
 
 export interface MCPToolProperty {
   type: string;
+  title?: string;
   description?: string;
   enum?: string[];
   default?: unknown;
   items?: MCPToolProperty;
+  // type 为 object 时的嵌套属性
+  properties?: Record<string, MCPToolProperty>;
+  required?: string[];
+}
+
+// 调试台保存的工具调用预设
+export interface MCPToolPreset {
+  id: string;
+  name: string;
+  serverId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  createdAt: string;
 }
 
 // MCP 工具调用请求
@@ -32,38 +85,128 @@ export interface MCPToolCallRequest {
 // MCP 工具调用结果
 export interface MCPToolCallResult {
   content: MCPContent[];
+  // 结构化结果，声明了 outputSchema 的工具必须返回
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
 // MCP 内容类型
 export interface MCPContent {
-  type: 'text' | 'image' | 'resource';
+  type: 'text' | 'image' | 'audio' | 'resource';
   text?: string;
   data?: string;
   mimeType?: string;
-  resource?: {
-    uri: string;
-    text?: string;
-    blob?: string;
-  };
+  resource?: MCPResourceContents;
 }
 
+// MCP 资源定义
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+// MCP 资源模板（RFC 6570 URI 模板）
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// MCP 资源内容（text 与 blob 二选一）
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+// MCP 传输方式
+// - http: Streamable HTTP（默认；初始化请求返回 4xx 时自动回退到 sse）
+// - sse: 旧版 HTTP+SSE（2024-11-05），GET 事件流 + POST 到 endpoint 事件给出的地址
+// - stdio: 本地子进程，通过 stdin/stdout 通信（仅 Node.js 运行时）
+export type MCPTransportType = 'http' | 'sse' | 'stdio';
+
 // MCP Server 配置
 export interface MCPServerConfig {
   id: string;
   name: string;
   description?: string;
-  endpoint: string;
+  transport?: MCPTransportType;
+  // HTTP 传输的服务器地址
+  endpoint?: string;
+  // stdio 传输的启动命令
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
   icon?: string;
   enabled?: boolean;
-  // 可选的认证配置
+  // 请求超时（毫秒），默认 60 秒；工具调用单独配置，默认 120 秒
+  requestTimeoutMs?: number;
+  toolCallTimeoutMs?: number;
+  // 幂等请求（initialize、tools/list 等）遇到超时或网络错误时的重试次数，默认 2
+  maxRetries?: number;
+  // 可选的认证配置；oauth 类型通过授权码流程获取令牌，令牌只保存在服务器端
   auth?: {
-    type: 'none' | 'bearer' | 'api-key';
+    type: 'none' | 'bearer' | 'api-key' | 'oauth';
     token?: string;
     headerName?: string;
+    // 预先注册的 OAuth 客户端（未配置时使用动态客户端注册）
+    clientId?: string;
+    clientSecret?: string;
+    // 申请的权限范围（默认使用服务器声明的范围）
+    scope?: string;
   };
+  // 附加到每个 HTTP 请求的自定义请求头
+  headers?: Record<string, string>;
+  // 用户在侧边栏添加的服务器（可编辑、删除）
+  userDefined?: boolean;
+  // 未单独设置的工具是否暴露给模型，默认 true；设为 false 时只暴露显式启用的工具
+  toolsEnabledByDefault?: boolean;
+  // 工具调用前是否需要用户确认，默认 never；可按工具覆盖
+  approvalPolicy?: MCPToolApprovalPolicy;
+  // 按工具名的设置（启用/禁用、别名、描述覆盖、确认策略）
+  toolSettings?: Record<string, MCPToolSettings>;
 }
 
+// 单个工具的设置
+export interface MCPToolSettings {
+  // 是否暴露给模型，未设置时取服务器的 toolsEnabledByDefault
+  enabled?: boolean;
+  // 暴露给模型的工具名
+  alias?: string;
+  // 覆盖服务器提供的工具描述
+  description?: string;
+  // 覆盖服务器的确认策略
+  approval?: MCPToolApprovalPolicy;
+}
+
+// 服务器配置中与工具相关的设置
+export type MCPServerToolConfig = Pick<MCPServerConfig, 'toolsEnabledByDefault' | 'approvalPolicy' | 'toolSettings'>;
+
+// 工具调用确认策略：每次确认、每个会话确认一次、无需确认
+export type MCPToolApprovalPolicy = 'always' | 'once' | 'never';
+
+// 用户对工具调用的确认结果；arguments 为用户修改后的参数
+export interface MCPToolApprovalDecision {
+  action: 'approve' | 'deny';
+  arguments?: Record<string, unknown>;
+}
+
+// MCP 客户端连接状态
+export type MCPConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+// 服务器端连接池推送给浏览器的事件
+export type MCPPoolEvent =
+  | { type: 'tools_changed'; serverId: string; tools: MCPTool[] }
+  | { type: 'mcp_connection'; serverId: string; state: MCPConnectionState };
+
 // MCP Server 状态
 export interface MCPServerState {
   config: MCPServerConfig;
@@ -72,6 +215,21 @@ export interface MCPServerState {
   tools: MCPTool[];
   error?: string;
   lastConnected?: Date;
+  // 初始化握手结果：协商的协议版本、服务器能力与信息
+  session?: MCPInitializeResult;
+  // 服务器要求 OAuth 授权后才能连接
+  authorizationRequired?: boolean;
+}
+
+// 附加到对话中的 MCP 资源
+export interface MCPAttachedResource {
+  serverId: string;
+  serverName: string;
+  uri: string;
+  name: string;
+  mimeType?: string;
+  text: string;
+  subscribed: boolean;
 }
 
 // MCP 请求类型
@@ -90,6 +248,16 @@ export interface MCPResponse<T = unknown> {
   error?: MCPError;
 }
 
+// MCP 通知类型（无 id，不期望响应）
+export interface MCPNotification<T = unknown> {
+  jsonrpc: '2.0';
+  method: string;
+  params?: T;
+}
+
+// 任意 JSON-RPC 消息：请求、通知或响应
+export type MCPMessage = MCPRequest | MCPNotification | MCPResponse;
+
 // MCP 错误
 export interface MCPError {
   code: number;
@@ -97,36 +265,253 @@ export interface MCPError {
   data?: unknown;
 }
 
+// 进度通知参数 (notifications/progress)
+export interface MCPProgressNotificationParams {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+// 日志级别（与 syslog 级别一致）
+export type MCPLoggingLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
+// 日志通知参数 (notifications/message)
+export interface MCPLoggingMessageNotificationParams {
+  level: MCPLoggingLevel;
+  logger?: string;
+  data: unknown;
+}
+
+// 客户端记录的日志条目，seq 在同一服务器内递增
+export interface MCPLogEntry extends MCPLoggingMessageNotificationParams {
+  seq: number;
+  timestamp: string;
+}
+
 // MCP 初始化响应
 export interface MCPInitializeResult {
   protocolVersion: string;
-  capabilities: {
-    tools?: {
-      listChanged?: boolean;
-    };
-    resources?: {
-      subscribe?: boolean;
-      listChanged?: boolean;
-    };
-    prompts?: {
-      listChanged?: boolean;
-    };
-  };
+  capabilities: MCPServerCapabilities;
   serverInfo: {
     name: string;
+    title?: string;
     version: string;
   };
+  // 服务器提供的使用说明
+  instructions?: string;
+}
+
+// MCP 服务器能力（未声明的能力对应的方法不可调用）
+export interface MCPServerCapabilities {
+  tools?: {
+    listChanged?: boolean;
+  };
+  resources?: {
+    subscribe?: boolean;
+    listChanged?: boolean;
+  };
+  prompts?: {
+    listChanged?: boolean;
+  };
+  logging?: object;
+  completions?: object;
+  experimental?: Record<string, object>;
+}
+
+// MCP 客户端能力（initialize 时声明，服务器据此发起对应的请求）
+export interface MCPClientCapabilities {
+  roots?: {
+    listChanged?: boolean;
+  };
+  sampling?: object;
+  elicitation?: object;
+  experimental?: Record<string, object>;
+}
+
+// 根目录：告诉服务器可以访问的目录（file:// URI），由服务器通过 roots/list 获取
+export interface MCPRoot {
+  uri: string;
+  name?: string;
+}
+
+// 采样消息
+export interface MCPSamplingMessage {
+  role: 'user' | 'assistant';
+  content: MCPContent;
+}
+
+// 服务器对采样模型的偏好（优先级取值 0~1）
+export interface MCPModelPreferences {
+  hints?: { name?: string }[];
+  costPriority?: number;
+  speedPriority?: number;
+  intelligencePriority?: number;
+}
+
+// 采样请求参数 (sampling/createMessage)
+export interface MCPCreateMessageParams {
+  messages: MCPSamplingMessage[];
+  modelPreferences?: MCPModelPreferences;
+  systemPrompt?: string;
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  temperature?: number;
+  maxTokens: number;
+  stopSequences?: string[];
+  metadata?: object;
+}
+
+// 采样响应
+export interface MCPCreateMessageResult {
+  role: 'assistant';
+  content: MCPContent;
+  model: string;
+  stopReason?: 'endTurn' | 'stopSequence' | 'maxTokens' | string;
+}
+
+// 用户对采样请求的决定
+export interface MCPSamplingDecision {
+  action: 'approve' | 'deny';
+}
+
+// 征询表单字段（只允许基本类型，不支持嵌套）
+export interface MCPElicitationProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  title?: string;
+  description?: string;
+  format?: 'email' | 'uri' | 'date' | 'date-time';
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  enum?: string[];
+  // enum 各选项的显示名称
+  enumNames?: string[];
+  default?: string | number | boolean;
+}
+
+// 征询请求的表单定义
+export interface MCPElicitationSchema {
+  type: 'object';
+  properties: Record<string, MCPElicitationProperty>;
+  required?: string[];
+}
+
+// 征询请求参数 (elicitation/create)
+export interface MCPElicitRequestParams {
+  message: string;
+  requestedSchema: MCPElicitationSchema;
+}
+
+// 征询响应：accept 时附带用户填写的内容
+export interface MCPElicitResult {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, string | number | boolean>;
 }
 
 // MCP 工具列表响应
 export interface MCPToolsListResult {
   tools: MCPTool[];
+  nextCursor?: string;
+}
+
+// MCP 资源列表响应
+export interface MCPResourcesListResult {
+  resources: MCPResource[];
+  nextCursor?: string;
+}
+
+// MCP 资源模板列表响应
+export interface MCPResourceTemplatesListResult {
+  resourceTemplates: MCPResourceTemplate[];
+  nextCursor?: string;
+}
+
+// MCP 资源读取响应
+export interface MCPReadResourceResult {
+  contents: MCPResourceContents[];
+}
+
+// MCP 提示词参数
+export interface MCPPromptArgument {
+  name: string;
+  title?: string;
+  description?: string;
+  required?: boolean;
+}
+
+// MCP 提示词定义
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+// MCP 提示词列表响应
+export interface MCPPromptsListResult {
+  prompts: MCPPrompt[];
+  nextCursor?: string;
+}
+
+// MCP 提示词消息
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContent;
+}
+
+// MCP 提示词获取响应
+export interface MCPGetPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// 参数补全的目标：提示词参数或资源模板变量
+export type MCPCompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+// 参数补全请求 (completion/complete)
+export interface MCPCompleteParams {
+  ref: MCPCompletionReference;
+  argument: {
+    name: string;
+    value: string;
+  };
+  // 已填写的其他参数，供服务器按上下文补全
+  context?: {
+    arguments?: Record<string, string>;
+  };
+}
+
+// 参数补全结果（最多 100 个候选值）
+export interface MCPCompletion {
+  values: string[];
+  total?: number;
+  hasMore?: boolean;
+}
+
+// 参数补全响应
+export interface MCPCompleteResult {
+  completion: MCPCompletion;
 }
 
 // MCP 工具调用参数
 export interface MCPToolCallParams {
   name: string;
   arguments?: Record<string, unknown>;
+  _meta?: {
+    progressToken?: string | number;
+    [key: string]: unknown;
+  };
 }
 
 // 聊天中使用的 MCP 工具调用
@@ -0,0 +1,99 @@
+/**
+ * RFC 6570 URI 模板工具
+ *
+ * 用于展开 MCP 资源模板（resources/templates/list 返回的 uriTemplate），
+ * 支持所有表达式运算符，变量值按字符串处理
+ */
+
+// 表达式运算符的展开规则
+const OPERATORS: Record<string, { first: string; separator: string; named: boolean; ifEmpty: string; allowReserved: boolean }> = {
+  '': { first: '', separator: ',', named: false, ifEmpty: '', allowReserved: false },
+  '+': { first: '', separator: ',', named: false, ifEmpty: '', allowReserved: true },
+  '#': { first: '#', separator: ',', named: false, ifEmpty: '', allowReserved: true },
+  '.': { first: '.', separator: '.', named: false, ifEmpty: '', allowReserved: false },
+  '/': { first: '/', separator: '/', named: false, ifEmpty: '', allowReserved: false },
+  ';': { first: ';', separator: ';', named: true, ifEmpty: '', allowReserved: false },
+  '?': { first: '?', separator: '&', named: true, ifEmpty: '=', allowReserved: false },
+  '&': { first: '&', separator: '&', named: true, ifEmpty: '=', allowReserved: false },
+};
+
+const EXPRESSION_PATTERN = /\{([^{}]+)\}/g;
+
+// 变量说明：变量名，可带前缀修饰符 (:3) 或展开修饰符 (*)
+const VARSPEC_PATTERN = /^([^:*]+)(?::(\d{1,4})|(\*))?$/;
+
+interface VarSpec {
+  name: string;
+  // 前缀修饰符：只取值的前 N 个字符
+  maxLength?: number;
+}
+
+/**
+ * 解析表达式，返回运算符和变量列表
+ */
+function parseExpression(expression: string): { operator: string; specs: VarSpec[] } {
+  const operator = '+#./;?&'.includes(expression[0]) ? expression[0] : '';
+  const body = operator ? expression.slice(1) : expression;
+  const specs = body
+    .split(',')
+    .map(spec => spec.trim())
+    .filter(Boolean)
+    .map(spec => {
+      const match = VARSPEC_PATTERN.exec(spec);
+      if (!match || match[2] === '0') {
+        throw new Error(`Invalid URI template expression: {${expression}}`);
+      }
+      // 变量值均为字符串，展开修饰符 (*) 对字符串没有影响
+      return { name: match[1], maxLength: match[2] ? Number(match[2]) : undefined };
+    });
+  return { operator, specs };
+}
+
+/**
+ * 编码变量值
+ */
+function encodeValue(value: string, allowReserved: boolean): string {
+  if (allowReserved) {
+    return encodeURI(value).replace(/%25([0-9A-Fa-f]{2})/g, '%$1');
+  }
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * 获取模板中的所有变量名（按出现顺序去重）；表达式不合法时抛出错误
+ */
+export function getUriTemplateVariables(template: string): string[] {
+  const variables: string[] = [];
+  for (const match of template.matchAll(EXPRESSION_PATTERN)) {
+    for (const { name } of parseExpression(match[1]).specs) {
+      if (!variables.includes(name)) {
+        variables.push(name);
+      }
+    }
+  }
+  return variables;
+}
+
+/**
+ * 使用变量展开 URI 模板，未提供的变量将被省略
+ */
+export function expandUriTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(EXPRESSION_PATTERN, (_, expression: string) => {
+    const { operator, specs } = parseExpression(expression);
+    const rule = OPERATORS[operator];
+
+    const parts = specs
+      .filter(({ name }) => variables[name] !== undefined)
+      .map(({ name, maxLength }) => {
+        // 前缀按 Unicode 字符截取，截取后再编码
+        const raw = maxLength === undefined ? variables[name] : Array.from(variables[name]).slice(0, maxLength).join('');
+        const value = encodeValue(raw, rule.allowReserved);
+        if (!rule.named) {
+          return value;
+        }
+        return value === '' ? `${name}${rule.ifEmpty}` : `${name}=${value}`;
+      });
+
+    return parts.length > 0 ? rule.first + parts.join(rule.separator) : '';
+  });
+}